@@ -4,11 +4,13 @@ import { config } from "dotenv";
 import * as schema1 from "./schemas/user.js";
 import * as schema2 from "./schemas/apiKey.js";
 import * as schema3 from "./schemas/subscriptions.js";
+import * as schema4 from "./schemas/memory.js";
 
 const schema = {
     ...schema1,
     ...schema2,
     ...schema3,
+    ...schema4,
 }
 
 config({ path: ".env" }); // or .env.local
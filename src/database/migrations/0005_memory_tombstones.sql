@@ -0,0 +1,7 @@
+CREATE TABLE "memory_tombstones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"contract_tx_id" text NOT NULL,
+	"vector_id" integer NOT NULL,
+	"deleted_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "memory_tombstones_contract_tx_id_vector_id_unique" UNIQUE("contract_tx_id","vector_id")
+);
\ No newline at end of file
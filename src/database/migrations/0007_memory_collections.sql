@@ -0,0 +1,9 @@
+CREATE TABLE "memory_collections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "memory_collections_user_id_name_unique" UNIQUE("user_id","name")
+);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "memory_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"ranking" jsonb,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "memory_settings_user_id_unique" UNIQUE("user_id")
+);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "memory_write_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"contract_tx_id" text NOT NULL,
+	"user_id" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"request" jsonb NOT NULL,
+	"result" jsonb,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
\ No newline at end of file
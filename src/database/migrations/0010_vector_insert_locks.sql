@@ -0,0 +1,5 @@
+CREATE TABLE "vector_insert_locks" (
+	"contract_tx_id" text PRIMARY KEY NOT NULL,
+	"holder" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "memory_expiries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"contract_tx_id" text NOT NULL,
+	"vector_id" integer NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "memory_expiries_contract_tx_id_vector_id_unique" UNIQUE("contract_tx_id","vector_id")
+);
+--> statement-breakpoint
+CREATE INDEX "memory_expiries_expires_at_index" ON "memory_expiries" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "memory_purges" (
+	"contract_tx_id" text PRIMARY KEY NOT NULL,
+	"replaced_by" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "memory_purges" ADD COLUMN "holder" text;
\ No newline at end of file
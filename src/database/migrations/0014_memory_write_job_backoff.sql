@@ -0,0 +1 @@
+ALTER TABLE "memory_write_jobs" ADD COLUMN "run_after" timestamp with time zone DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { type InferSelectModel, and, asc, eq } from "drizzle-orm";
+import { db } from "../db.js";
+import { memoryCollectionTable } from "../schemas/memory.js";
+
+export type MemoryCollection = InferSelectModel<typeof memoryCollectionTable>;
+
+/**
+ * Creates a collection for a tenant.
+ * Returns undefined if the tenant already has a collection with that name.
+ */
+export async function createMemoryCollection(
+	userId: string,
+	name: string,
+	description?: string,
+): Promise<MemoryCollection | undefined> {
+	const [collection] = await db
+		.insert(memoryCollectionTable)
+		.values({ userId, name, description })
+		.onConflictDoNothing()
+		.returning();
+	return collection;
+}
+
+export async function listMemoryCollections(
+	userId: string,
+): Promise<MemoryCollection[]> {
+	return db
+		.select()
+		.from(memoryCollectionTable)
+		.where(eq(memoryCollectionTable.userId, userId))
+		.orderBy(asc(memoryCollectionTable.name));
+}
+
+export async function getMemoryCollection(
+	userId: string,
+	name: string,
+): Promise<MemoryCollection | undefined> {
+	const [collection] = await db
+		.select()
+		.from(memoryCollectionTable)
+		.where(
+			and(
+				eq(memoryCollectionTable.userId, userId),
+				eq(memoryCollectionTable.name, name),
+			),
+		);
+	return collection;
+}
+
+export async function updateMemoryCollection(
+	userId: string,
+	name: string,
+	updates: { description: string | null },
+): Promise<MemoryCollection | undefined> {
+	const [collection] = await db
+		.update(memoryCollectionTable)
+		.set({ ...updates, updatedAt: new Date() })
+		.where(
+			and(
+				eq(memoryCollectionTable.userId, userId),
+				eq(memoryCollectionTable.name, name),
+			),
+		)
+		.returning();
+	return collection;
+}
+
+/**
+ * Deletes a tenant's collection.
+ * Returns false if it did not exist.
+ */
+export async function deleteMemoryCollection(
+	userId: string,
+	name: string,
+): Promise<boolean> {
+	const deleted = await db
+		.delete(memoryCollectionTable)
+		.where(
+			and(
+				eq(memoryCollectionTable.userId, userId),
+				eq(memoryCollectionTable.name, name),
+			),
+		)
+		.returning();
+	return deleted.length > 0;
+}
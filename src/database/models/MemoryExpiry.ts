@@ -0,0 +1,49 @@
+import { asc, eq, inArray, lte } from "drizzle-orm";
+import { db } from "../db.js";
+import { memoryExpiryTable } from "../schemas/memory.js";
+
+export async function createMemoryExpiry(
+	contractTxId: string,
+	vectorId: number,
+	expiresAt: Date,
+): Promise<void> {
+	await db
+		.insert(memoryExpiryTable)
+		.values({ contractTxId, vectorId, expiresAt })
+		.onConflictDoNothing();
+}
+
+/**
+ * Returns the soonest expiries that are due by the given time.
+ */
+export async function listDueMemoryExpiries(
+	dueBy: Date,
+	limit: number,
+): Promise<Array<{ id: string; contractTxId: string; vectorId: number }>> {
+	return db
+		.select({
+			id: memoryExpiryTable.id,
+			contractTxId: memoryExpiryTable.contractTxId,
+			vectorId: memoryExpiryTable.vectorId,
+		})
+		.from(memoryExpiryTable)
+		.where(lte(memoryExpiryTable.expiresAt, dueBy))
+		.orderBy(asc(memoryExpiryTable.expiresAt))
+		.limit(limit);
+}
+
+export async function deleteMemoryExpiriesById(ids: string[]): Promise<void> {
+	if (ids.length === 0) {
+		return;
+	}
+
+	await db.delete(memoryExpiryTable).where(inArray(memoryExpiryTable.id, ids));
+}
+
+export async function deleteMemoryExpiries(
+	contractTxId: string,
+): Promise<void> {
+	await db
+		.delete(memoryExpiryTable)
+		.where(eq(memoryExpiryTable.contractTxId, contractTxId));
+}
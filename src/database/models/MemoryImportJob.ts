@@ -0,0 +1,94 @@
+import { type InferSelectModel, and, eq, lt } from "drizzle-orm";
+import { db } from "../db.js";
+import { memoryImportJobTable } from "../schemas/memory.js";
+
+export type MemoryImportJob = InferSelectModel<typeof memoryImportJobTable>;
+
+// Counters and error report of a job, written as the import progresses
+export type MemoryImportProgress = Pick<
+	MemoryImportJob,
+	| "processedLines"
+	| "imported"
+	| "rejected"
+	| "reembedded"
+	| "skipped"
+	| "failed"
+	| "errors"
+>;
+
+export async function createMemoryImportJob(
+	contractTxId: string,
+	totalLines: number,
+): Promise<MemoryImportJob> {
+	const [job] = await db
+		.insert(memoryImportJobTable)
+		.values({ contractTxId, totalLines })
+		.returning();
+	return job;
+}
+
+export async function getMemoryImportJob(
+	contractTxId: string,
+	id: string,
+): Promise<MemoryImportJob | undefined> {
+	const [job] = await db
+		.select()
+		.from(memoryImportJobTable)
+		.where(
+			and(
+				eq(memoryImportJobTable.id, id),
+				eq(memoryImportJobTable.contractTxId, contractTxId),
+			),
+		);
+	return job;
+}
+
+/**
+ * Saves the progress of a running job, which also marks it as still running.
+ */
+export async function updateMemoryImportJob(
+	id: string,
+	progress: MemoryImportProgress,
+): Promise<void> {
+	await db
+		.update(memoryImportJobTable)
+		.set({ ...progress, updatedAt: new Date() })
+		.where(
+			and(
+				eq(memoryImportJobTable.id, id),
+				eq(memoryImportJobTable.status, "running"),
+			),
+		);
+}
+
+export async function finishMemoryImportJob(
+	id: string,
+	progress: MemoryImportProgress,
+	error?: string,
+): Promise<void> {
+	const now = new Date();
+	await db
+		.update(memoryImportJobTable)
+		.set({
+			...progress,
+			status: error === undefined ? "completed" : "failed",
+			error,
+			updatedAt: now,
+			finishedAt: now,
+		})
+		.where(eq(memoryImportJobTable.id, id));
+}
+
+/**
+ * Deletes jobs that finished, or were last running, before the given time.
+ * Returns the number of deleted jobs.
+ */
+export async function deleteMemoryImportJobs(
+	updatedBefore: Date,
+): Promise<number> {
+	const deleted = await db
+		.delete(memoryImportJobTable)
+		.where(lt(memoryImportJobTable.updatedAt, updatedBefore))
+		.returning({ id: memoryImportJobTable.id });
+	return deleted.length;
+}
@@ -0,0 +1,155 @@
+import {
+	type InferSelectModel,
+	and,
+	eq,
+	exists,
+	gt,
+	isNotNull,
+	isNull,
+	lt,
+	or,
+	sql,
+} from "drizzle-orm";
+import { db } from "../db.js";
+import { apiKeyTable } from "../schemas/apiKey.js";
+import { memoryPurgeTable } from "../schemas/memory.js";
+
+export type MemoryPurge = InferSelectModel<typeof memoryPurgeTable>;
+
+/**
+ * Marks a contract as being purged by the given holder.
+ * Returns false if it is already being purged or has been replaced.
+ */
+export async function startMemoryPurge(
+	contractTxId: string,
+	holder: string,
+	ttlMs: number,
+): Promise<boolean> {
+	// Expiries are computed by Postgres, whose clock decides when they run out
+	const expiresAt = sql`now() + ${ttlMs} * interval '1 millisecond'`;
+	// An abandoned purge (crashed before finishing) can be taken over
+	const started = await db
+		.insert(memoryPurgeTable)
+		.values({ contractTxId, holder, startedAt: sql`now()`, expiresAt })
+		.onConflictDoUpdate({
+			target: memoryPurgeTable.contractTxId,
+			set: { holder, startedAt: sql`now()`, expiresAt },
+			setWhere: and(
+				isNull(memoryPurgeTable.replacedBy),
+				lt(memoryPurgeTable.expiresAt, sql`now()`),
+			),
+		})
+		.returning({ contractTxId: memoryPurgeTable.contractTxId });
+	return started.length > 0;
+}
+
+/**
+ * Returns the purge of a contract if one is running or has replaced it.
+ */
+export async function getMemoryPurge(
+	contractTxId: string,
+): Promise<MemoryPurge | undefined> {
+	const [purge] = await db
+		.select()
+		.from(memoryPurgeTable)
+		.where(
+			and(
+				eq(memoryPurgeTable.contractTxId, contractTxId),
+				or(
+					isNotNull(memoryPurgeTable.replacedBy),
+					gt(memoryPurgeTable.expiresAt, sql`now()`),
+				),
+			),
+		);
+	return purge;
+}
+
+// Conditions under which a holder still owns a purge
+const heldBy = (contractTxId: string, holder: string) =>
+	and(
+		eq(memoryPurgeTable.contractTxId, contractTxId),
+		eq(memoryPurgeTable.holder, holder),
+		isNull(memoryPurgeTable.replacedBy),
+		gt(memoryPurgeTable.expiresAt, sql`now()`),
+	);
+
+/**
+ * Pushes back the expiry of a running purge.
+ * Returns false if the holder no longer owns it.
+ */
+export async function renewMemoryPurge(
+	contractTxId: string,
+	holder: string,
+	ttlMs: number,
+): Promise<boolean> {
+	const renewed = await db
+		.update(memoryPurgeTable)
+		.set({ expiresAt: sql`now() + ${ttlMs} * interval '1 millisecond'` })
+		.where(heldBy(contractTxId, holder))
+		.returning({ contractTxId: memoryPurgeTable.contractTxId });
+	return renewed.length > 0;
+}
+
+/**
+ * Records the contract that replaced a purged one and, in the same
+ * transaction, points the tenant's API key at it. Writes to the old
+ * contract stay blocked for good. Returns false, changing nothing, if the
+ * holder no longer owns the purge.
+ */
+export async function completeMemoryPurge(
+	contractTxId: string,
+	holder: string,
+	replacedBy: string,
+	userId?: string,
+): Promise<boolean> {
+	const complete = db
+		.update(memoryPurgeTable)
+		.set({ replacedBy })
+		.where(heldBy(contractTxId, holder))
+		.returning({ contractTxId: memoryPurgeTable.contractTxId });
+	if (!userId) {
+		return (await complete).length > 0;
+	}
+
+	// Only switches the key if the update above went through
+	const switchApiKey = db
+		.update(apiKeyTable)
+		.set({ contract_tx_id: replacedBy, updatedAt: new Date() })
+		.where(
+			and(
+				eq(apiKeyTable.userId, userId),
+				exists(
+					db
+						.select()
+						.from(memoryPurgeTable)
+						.where(
+							and(
+								eq(memoryPurgeTable.contractTxId, contractTxId),
+								eq(memoryPurgeTable.holder, holder),
+								eq(memoryPurgeTable.replacedBy, replacedBy),
+							),
+						),
+				),
+			),
+		);
+	const [completed] = await db.batch([complete, switchApiKey]);
+	return completed.length > 0;
+}
+
+/**
+ * Lifts the write block of a purge that failed before replacing the contract.
+ */
+export async function abortMemoryPurge(
+	contractTxId: string,
+	holder: string,
+): Promise<void> {
+	await db
+		.delete(memoryPurgeTable)
+		.where(
+			and(
+				eq(memoryPurgeTable.contractTxId, contractTxId),
+				eq(memoryPurgeTable.holder, holder),
+				isNull(memoryPurgeTable.replacedBy),
+			),
+		);
+}
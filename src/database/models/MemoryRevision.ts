@@ -0,0 +1,42 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db.js";
+import { memoryRevisionTable } from "../schemas/memory.js";
+
+/**
+ * Records that `vectorId` was replaced by `supersededBy`.
+ * Returns false if the version had already been superseded.
+ */
+export async function createMemoryRevision(
+	contractTxId: string,
+	vectorId: number,
+	supersededBy: number,
+): Promise<boolean> {
+	const inserted = await db
+		.insert(memoryRevisionTable)
+		.values({ contractTxId, vectorId, supersededBy })
+		.onConflictDoNothing()
+		.returning();
+	return inserted.length > 0;
+}
+
+/** Map of superseded vector ID -> ID of the version that replaced it */
+export async function getSupersededVectorIds(
+	contractTxId: string,
+): Promise<Map<number, number>> {
+	const rows = await db
+		.select({
+			vectorId: memoryRevisionTable.vectorId,
+			supersededBy: memoryRevisionTable.supersededBy,
+		})
+		.from(memoryRevisionTable)
+		.where(eq(memoryRevisionTable.contractTxId, contractTxId));
+	return new Map(rows.map((row) => [row.vectorId, row.supersededBy]));
+}
+
+export async function deleteMemoryRevisions(
+	contractTxId: string,
+): Promise<void> {
+	await db
+		.delete(memoryRevisionTable)
+		.where(eq(memoryRevisionTable.contractTxId, contractTxId));
+}
@@ -0,0 +1,33 @@
+import { type InferSelectModel, eq } from "drizzle-orm";
+import { db } from "../db.js";
+import { memorySettingsTable } from "../schemas/memory.js";
+
+export type MemorySettings = InferSelectModel<typeof memorySettingsTable>;
+
+export async function getMemorySettings(
+	userId: string,
+): Promise<MemorySettings | undefined> {
+	const [settings] = await db
+		.select()
+		.from(memorySettingsTable)
+		.where(eq(memorySettingsTable.userId, userId));
+	return settings;
+}
+
+/**
+ * Creates or replaces a tenant's settings.
+ */
+export async function upsertMemorySettings(
+	userId: string,
+	updates: Pick<MemorySettings, "ranking">,
+): Promise<MemorySettings> {
+	const [settings] = await db
+		.insert(memorySettingsTable)
+		.values({ userId, ...updates })
+		.onConflictDoUpdate({
+			target: memorySettingsTable.userId,
+			set: { ...updates, updatedAt: new Date() },
+		})
+		.returning();
+	return settings;
+}
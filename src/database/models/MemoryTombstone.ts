@@ -0,0 +1,33 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db.js";
+import { memoryTombstoneTable } from "../schemas/memory.js";
+
+export async function createMemoryTombstone(
+	contractTxId: string,
+	vectorId: number,
+): Promise<boolean> {
+	const inserted = await db
+		.insert(memoryTombstoneTable)
+		.values({ contractTxId, vectorId })
+		.onConflictDoNothing()
+		.returning();
+	return inserted.length > 0;
+}
+
+export async function listTombstonedVectorIds(
+	contractTxId: string,
+): Promise<number[]> {
+	const rows = await db
+		.select({ vectorId: memoryTombstoneTable.vectorId })
+		.from(memoryTombstoneTable)
+		.where(eq(memoryTombstoneTable.contractTxId, contractTxId));
+	return rows.map((row) => row.vectorId);
+}
+
+export async function deleteMemoryTombstones(
+	contractTxId: string,
+): Promise<void> {
+	await db
+		.delete(memoryTombstoneTable)
+		.where(eq(memoryTombstoneTable.contractTxId, contractTxId));
+}
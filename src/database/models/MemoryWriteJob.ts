@@ -0,0 +1,248 @@
+import {
+	type InferSelectModel,
+	and,
+	asc,
+	eq,
+	inArray,
+	lt,
+	lte,
+	sql,
+} from "drizzle-orm";
+import type { CreateMemory } from "../../schemas/memory.js";
+import { db } from "../db.js";
+import { memoryWriteJobTable } from "../schemas/memory.js";
+
+export type MemoryWriteJob = InferSelectModel<typeof memoryWriteJobTable>;
+
+export async function createMemoryWriteJob(
+	contractTxId: string,
+	userId: string | null,
+	request: CreateMemory,
+): Promise<MemoryWriteJob> {
+	const [job] = await db
+		.insert(memoryWriteJobTable)
+		.values({ contractTxId, userId, request })
+		.returning();
+	return job;
+}
+
+export async function getMemoryWriteJob(
+	contractTxId: string,
+	id: string,
+): Promise<MemoryWriteJob | undefined> {
+	const [job] = await db
+		.select()
+		.from(memoryWriteJobTable)
+		.where(
+			and(
+				eq(memoryWriteJobTable.id, id),
+				eq(memoryWriteJobTable.contractTxId, contractTxId),
+			),
+		);
+	return job;
+}
+
+/**
+ * Returns which of the given jobs are still pending or running.
+ */
+export async function listUnfinishedMemoryWriteJobIds(
+	ids: string[],
+): Promise<string[]> {
+	if (ids.length === 0) {
+		return [];
+	}
+
+	const rows = await db
+		.select({ id: memoryWriteJobTable.id })
+		.from(memoryWriteJobTable)
+		.where(
+			and(
+				inArray(memoryWriteJobTable.id, ids),
+				inArray(memoryWriteJobTable.status, ["pending", "running"]),
+			),
+		);
+	return rows.map((row) => row.id);
+}
+
+// Postgres timestamp `ms` milliseconds from now
+const fromNow = (ms: number) => sql`now() + ${ms} * interval '1 millisecond'`;
+
+/**
+ * Marks the oldest pending jobs that are due as running and returns them.
+ * A job claimed by another worker in the meantime is not returned.
+ */
+export async function claimMemoryWriteJobs(
+	limit: number,
+): Promise<MemoryWriteJob[]> {
+	const pending = await db
+		.select({ id: memoryWriteJobTable.id })
+		.from(memoryWriteJobTable)
+		.where(
+			and(
+				eq(memoryWriteJobTable.status, "pending"),
+				lte(memoryWriteJobTable.runAfter, sql`now()`),
+			),
+		)
+		.orderBy(asc(memoryWriteJobTable.createdAt))
+		.limit(limit);
+
+	if (pending.length === 0) {
+		return [];
+	}
+
+	const claimed = await db
+		.update(memoryWriteJobTable)
+		.set({
+			status: "running",
+			attempts: sql`${memoryWriteJobTable.attempts} + 1`,
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				inArray(
+					memoryWriteJobTable.id,
+					pending.map((job) => job.id),
+				),
+				eq(memoryWriteJobTable.status, "pending"),
+			),
+		)
+		.returning();
+
+	return claimed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function completeMemoryWriteJob(
+	id: string,
+	result: NonNullable<MemoryWriteJob["result"]>,
+): Promise<void> {
+	const now = new Date();
+	await db
+		.update(memoryWriteJobTable)
+		.set({ status: "completed", result, updatedAt: now, completedAt: now })
+		.where(eq(memoryWriteJobTable.id, id));
+}
+
+export async function failMemoryWriteJob(
+	id: string,
+	error: string,
+): Promise<void> {
+	const now = new Date();
+	await db
+		.update(memoryWriteJobTable)
+		.set({ status: "failed", error, updatedAt: now, completedAt: now })
+		.where(eq(memoryWriteJobTable.id, id));
+}
+
+/**
+ * Marks running jobs as still being worked on, so they aren't taken for stale.
+ */
+export async function touchMemoryWriteJobs(ids: string[]): Promise<void> {
+	if (ids.length === 0) {
+		return;
+	}
+
+	await db
+		.update(memoryWriteJobTable)
+		.set({ updatedAt: new Date() })
+		.where(
+			and(
+				inArray(memoryWriteJobTable.id, ids),
+				eq(memoryWriteJobTable.status, "running"),
+			),
+		);
+}
+
+/**
+ * Puts running jobs back in the queue so they are retried after `delayMs`.
+ */
+export async function releaseMemoryWriteJobs(
+	ids: string[],
+	delayMs = 0,
+): Promise<void> {
+	if (ids.length === 0) {
+		return;
+	}
+
+	await db
+		.update(memoryWriteJobTable)
+		.set({
+			status: "pending",
+			runAfter: fromNow(delayMs),
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				inArray(memoryWriteJobTable.id, ids),
+				eq(memoryWriteJobTable.status, "running"),
+			),
+		);
+}
+
+/**
+ * Puts running jobs back in the queue for after `delayMs` without counting
+ * the attempt, for jobs that could not be tried yet.
+ */
+export async function deferMemoryWriteJobs(
+	ids: string[],
+	delayMs = 0,
+): Promise<void> {
+	if (ids.length === 0) {
+		return;
+	}
+
+	await db
+		.update(memoryWriteJobTable)
+		.set({
+			status: "pending",
+			attempts: sql`greatest(${memoryWriteJobTable.attempts} - 1, 0)`,
+			runAfter: fromNow(delayMs),
+			updatedAt: new Date(),
+		})
+		.where(
+			and(
+				inArray(memoryWriteJobTable.id, ids),
+				eq(memoryWriteJobTable.status, "running"),
+			),
+		);
+}
+
+/**
+ * Points the unfinished jobs of a contract at another contract,
+ * e.g. the one that replaced it in a purge. Returns the number of moved jobs.
+ */
+export async function redirectMemoryWriteJobs(
+	fromContractTxId: string,
+	toContractTxId: string,
+): Promise<number> {
+	const moved = await db
+		.update(memoryWriteJobTable)
+		.set({ contractTxId: toContractTxId, updatedAt: new Date() })
+		.where(
+			and(
+				eq(memoryWriteJobTable.contractTxId, fromContractTxId),
+				eq(memoryWriteJobTable.status, "pending"),
+			),
+		)
+		.returning({ id: memoryWriteJobTable.id });
+	return moved.length;
+}
+
+/**
+ * Requeues jobs left running by a worker that stopped before finishing them.
+ * Returns the number of requeued jobs.
+ */
+export async function requeueStaleMemoryWriteJobs(
+	runningBefore: Date,
+): Promise<number> {
+	const requeued = await db
+		.update(memoryWriteJobTable)
+		.set({ status: "pending", updatedAt: new Date() })
+		.where(
+			and(
+				eq(memoryWriteJobTable.status, "running"),
+				lt(memoryWriteJobTable.updatedAt, runningBefore),
+			),
+		)
+		.returning({ id: memoryWriteJobTable.id });
+	return requeued.length;
+}
@@ -0,0 +1,60 @@
+import { and, eq, gt, sql } from "drizzle-orm";
+import { db } from "../db.js";
+import { vectorInsertLockTable } from "../schemas/memory.js";
+
+export async function acquireVectorInsertLock(
+	contractTxId: string,
+	holder: string,
+	ttlMs: number,
+): Promise<boolean> {
+	// Expiries are computed by Postgres, whose clock decides when they run out
+	const expiresAt = sql`now() + ${ttlMs} * interval '1 millisecond'`;
+	// Take the lease if nobody holds it, or if the previous holder's lease ran out
+	const acquired = await db
+		.insert(vectorInsertLockTable)
+		.values({ contractTxId, holder, expiresAt })
+		.onConflictDoUpdate({
+			target: vectorInsertLockTable.contractTxId,
+			set: { holder, expiresAt },
+			setWhere: sql`${vectorInsertLockTable.expiresAt} < now()`,
+		})
+		.returning({ holder: vectorInsertLockTable.holder });
+	return acquired.length > 0;
+}
+
+/**
+ * Pushes back the expiry of a held lease.
+ * Returns false if the holder no longer holds it.
+ */
+export async function renewVectorInsertLock(
+	contractTxId: string,
+	holder: string,
+	ttlMs: number,
+): Promise<boolean> {
+	const renewed = await db
+		.update(vectorInsertLockTable)
+		.set({ expiresAt: sql`now() + ${ttlMs} * interval '1 millisecond'` })
+		.where(
+			and(
+				eq(vectorInsertLockTable.contractTxId, contractTxId),
+				eq(vectorInsertLockTable.holder, holder),
+				gt(vectorInsertLockTable.expiresAt, sql`now()`),
+			),
+		)
+		.returning({ holder: vectorInsertLockTable.holder });
+	return renewed.length > 0;
+}
+
+export async function releaseVectorInsertLock(
+	contractTxId: string,
+	holder: string,
+): Promise<void> {
+	await db
+		.delete(vectorInsertLockTable)
+		.where(
+			and(
+				eq(vectorInsertLockTable.contractTxId, contractTxId),
+				eq(vectorInsertLockTable.holder, holder),
+			),
+		);
+}
@@ -0,0 +1,159 @@
+import {
+	index,
+	integer,
+	jsonb,
+	pgTable,
+	text,
+	timestamp,
+	unique,
+	uuid,
+} from "drizzle-orm/pg-core";
+import type { CreateMemory, RankingDefaults } from "../../schemas/memory.js";
+
+// Eizen contracts are append-only, so deleted memories are recorded here and hidden at read time
+export const memoryTombstoneTable = pgTable(
+	"memory_tombstones",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		contractTxId: text("contract_tx_id").notNull(), // Arweave contract the memory lives in
+		vectorId: integer("vector_id").notNull(), // Eizen vector ID of the deleted memory
+		deletedAt: timestamp("deleted_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [unique().on(table.contractTxId, table.vectorId)],
+);
+
+// Links each superseded memory version to the vector that replaced it
+export const memoryRevisionTable = pgTable(
+	"memory_revisions",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		contractTxId: text("contract_tx_id").notNull(), // Arweave contract the versions live in
+		vectorId: integer("vector_id").notNull(), // Superseded version
+		supersededBy: integer("superseded_by").notNull(), // Newer version that replaced it
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [unique().on(table.contractTxId, table.vectorId)], // A version can only be superseded once
+);
+
+// Named collections that partition a tenant's memories; memories reference them by name
+export const memoryCollectionTable = pgTable(
+	"memory_collections",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		userId: text("user_id").notNull(), // Tenant owning the collection (survives contract purges)
+		name: text("name").notNull(),
+		description: text("description"),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [unique().on(table.userId, table.name)],
+);
+
+// When memories with an `expires_at` expire, so the sweeper only visits memories that are due
+export const memoryExpiryTable = pgTable(
+	"memory_expiries",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		contractTxId: text("contract_tx_id").notNull(), // Arweave contract the memory lives in
+		vectorId: integer("vector_id").notNull(), // Eizen vector ID of the expiring memory
+		expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+	},
+	(table) => [
+		unique().on(table.contractTxId, table.vectorId),
+		index().on(table.expiresAt),
+	],
+);
+
+// Contracts being purged (writes are refused until it finishes) or already replaced by a purge
+export const memoryPurgeTable = pgTable("memory_purges", {
+	contractTxId: text("contract_tx_id").primaryKey(), // Contract being purged
+	replacedBy: text("replaced_by"), // Contract holding the memories once the purge has finished
+	holder: text("holder"), // Token of the purge holding the lease; only it may renew or finish it
+	startedAt: timestamp("started_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(),
+	expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(), // An unfinished purge past this was abandoned
+});
+
+// Per-tenant memory API settings
+export const memorySettingsTable = pgTable("memory_settings", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	userId: text("user_id").notNull().unique(), // Tenant the settings belong to
+	ranking: jsonb("ranking").$type<RankingDefaults>(), // Defaults for weighted search ranking
+	updatedAt: timestamp("updated_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(),
+});
+
+// Memory writes accepted asynchronously, processed in the background by MemoryWriteQueue
+export const memoryWriteJobTable = pgTable("memory_write_jobs", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	contractTxId: text("contract_tx_id").notNull(), // Contract the memory is written to
+	userId: text("user_id"), // Tenant that queued the write, needed for collections
+	status: text("status")
+		.$type<"pending" | "running" | "completed" | "failed">()
+		.notNull()
+		.default("pending"),
+	request: jsonb("request").$type<CreateMemory>().notNull(), // Validated POST /memories body
+	result: jsonb("result").$type<{
+		action: "created" | "merged" | "rejected";
+		memoryId: number;
+		existingMemoryId?: number;
+	}>(), // Set once completed
+	error: text("error"), // Set once failed
+	attempts: integer("attempts").notNull().default(0),
+	runAfter: timestamp("run_after", { withTimezone: true })
+		.notNull()
+		.defaultNow(), // Pending jobs aren't claimed before this; pushed back when a write is retried
+	createdAt: timestamp("created_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(),
+	updatedAt: timestamp("updated_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(), // Refreshed while running, so stale jobs can be told apart
+	completedAt: timestamp("completed_at", { withTimezone: true }),
+});
+
+// NDJSON imports run in the background by ImportJobService, with their progress and error report
+export const memoryImportJobTable = pgTable("memory_import_jobs", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	contractTxId: text("contract_tx_id").notNull(), // Contract the memories are imported into
+	status: text("status")
+		.$type<"running" | "completed" | "failed">()
+		.notNull()
+		.default("running"),
+	totalLines: integer("total_lines").notNull(), // Non-empty lines in the upload
+	processedLines: integer("processed_lines").notNull().default(0),
+	imported: integer("imported").notNull().default(0), // Memories created or merged
+	rejected: integer("rejected").notNull().default(0), // Lines rejected as near-duplicates
+	reembedded: integer("reembedded").notNull().default(0), // Imported memories whose vector was recomputed
+	skipped: integer("skipped").notNull().default(0), // Superseded versions left out
+	failed: integer("failed").notNull().default(0),
+	errors: jsonb("errors")
+		.$type<Array<{ line: number; error: string }>>()
+		.notNull()
+		.default([]), // One entry per failed line
+	error: text("error"), // Set when the job as a whole failed
+	createdAt: timestamp("created_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(),
+	updatedAt: timestamp("updated_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(), // Refreshed while running, so interrupted jobs can be told apart
+	finishedAt: timestamp("finished_at", { withTimezone: true }),
+});
+
+// Lease serializing vector inserts into an Eizen contract across API instances
+export const vectorInsertLockTable = pgTable("vector_insert_locks", {
+	contractTxId: text("contract_tx_id").primaryKey(), // Contract being written to
+	holder: text("holder").notNull(), // Random token of the insert holding the lease
+	expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(), // Lease is free to take after this
+});
@@ -0,0 +1,87 @@
+import type { NextFunction, Request, Response } from "express";
+import { verifyIncomingApiKey } from "../utils/apiKey.js";
+import { errorResponse } from "../utils/responses.js";
+
+/**
+ * Middleware to authenticate memory API requests with a tenant API key
+ *
+ * Reads the `Authorization: Bearer <api key>` header, verifies the key and
+ * resolves the tenant's Eizen contract from the api_keys table.
+ *
+ * On success `req.userId` and `req.contractId` are populated.
+ * - 401: missing, malformed or unknown API key
+ * - 403: key is inactive or has no contract deployed yet
+ */
+export const apiKeyAuth = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	const [scheme, token] = req.headers.authorization?.split(" ") ?? [];
+
+	if (scheme?.toLowerCase() !== "bearer" || !token) {
+		res
+			.status(401)
+			.json(
+				errorResponse(
+					"Missing API key",
+					"Provide your API key as 'Authorization: Bearer <api key>'",
+				),
+			);
+		return;
+	}
+
+	try {
+		// The stored key record tells which contract holds this user's memories
+		const verified = await verifyIncomingApiKey(token);
+
+		if (!verified) {
+			res
+				.status(401)
+				.json(
+					errorResponse("Invalid API key", "API key is invalid or revoked"),
+				);
+			return;
+		}
+
+		const { apiKey } = verified;
+
+		if (!apiKey.isActive) {
+			res
+				.status(403)
+				.json(
+					errorResponse(
+						"API key is inactive",
+						"This API key has not been activated yet or has been disabled",
+					),
+				);
+			return;
+		}
+
+		if (!apiKey.contract_tx_id) {
+			res
+				.status(403)
+				.json(
+					errorResponse(
+						"No memory contract",
+						"No Eizen contract has been deployed for this API key yet",
+					),
+				);
+			return;
+		}
+
+		req.userId = apiKey.userId;
+		req.contractId = apiKey.contract_tx_id;
+		next();
+	} catch (error) {
+		console.error("API key authentication error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to authenticate API key",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+};
@@ -1,8 +1,24 @@
 import { type Request, type Response, Router } from "express";
+import httpErrors from "http-errors";
+import { ZodError } from "zod";
 import { validateData } from "../middlewares/validate.js";
-import { insertVectorSchema, searchVectorSchema } from "../schemas/eizen.js";
-import { EizenService } from "../services/EizenService.js";
-import { errorResponse, successResponse } from "../utils/responses.js";
+import {
+	insertVectorSchema,
+	recallBenchmarkSchema,
+	searchVectorSchema,
+} from "../schemas/eizen.js";
+import { recallBenchmarkService } from "../services/RecallBenchmark.js";
+import {
+	type VectorStore,
+	acquireVectorStore,
+	deployVectorStore,
+	vectorStoreKindSchema,
+} from "../services/VectorStore.js";
+import {
+	errorResponse,
+	successResponse,
+	validationErrorResponse,
+} from "../utils/responses.js";
 
 /**
  * ADMIN ROUTES - ArchiveNET Vector Database Administration
@@ -26,14 +42,19 @@ import { errorResponse, successResponse } from "../utils/responses.js";
 const router = Router();
 
 /**
- * Get admin Eizen service instance
+ * Get admin vector store instance
  * Uses the contract ID from environment variables for admin operations
+ * The store is leased until the response closes.
  *
  * @param req - Express request object (unused, kept for consistency)
- * @returns Promise<EizenService> - Admin Eizen service instance
+ * @param res - Express response whose end releases the store
+ * @returns Promise<VectorStore> - Admin vector store (Eizen contract or local store)
  * @throws Error if EIZEN_CONTRACT_ID is not configured
  */
-async function getAdminEizenService(req: Request): Promise<EizenService> {
+async function getAdminVectorStore(
+	req: Request,
+	res: Response,
+): Promise<VectorStore> {
 	const contractId = process.env.EIZEN_CONTRACT_ID;
 
 	if (!contractId) {
@@ -42,7 +63,9 @@ async function getAdminEizenService(req: Request): Promise<EizenService> {
 		);
 	}
 
-	return await EizenService.forContract(contractId);
+	const { store, release } = await acquireVectorStore(contractId);
+	res.once("close", release);
+	return store;
 }
 
 /**
@@ -66,8 +89,8 @@ async function getAdminEizenService(req: Request): Promise<EizenService> {
  */
 router.post("/insert", validateData(insertVectorSchema), async (req, res) => {
 	try {
-		const eizenService = await getAdminEizenService(req);
-		const result = await eizenService.insertVector(req.body);
+		const vectorStore = await getAdminVectorStore(req, res);
+		const result = await vectorStore.insertVector(req.body);
 
 		res
 			.status(201)
@@ -109,8 +132,8 @@ router.post("/insert", validateData(insertVectorSchema), async (req, res) => {
  */
 router.post("/search", validateData(searchVectorSchema), async (req, res) => {
 	try {
-		const eizenService = await getAdminEizenService(req);
-		const results = await eizenService.searchVectors(req.body);
+		const vectorStore = await getAdminVectorStore(req, res);
+		const results = await vectorStore.searchVectors(req.body);
 
 		res.json(
 			successResponse(results, `Found ${results.length} similar vectors`),
@@ -152,7 +175,7 @@ router.get(
 	"/vector/:id",
 	async (req: Request, res: Response): Promise<void> => {
 		try {
-			const eizenService = await getAdminEizenService(req);
+			const vectorStore = await getAdminVectorStore(req, res);
 			const vectorId = Number.parseInt(req.params.id, 10);
 
 			if (Number.isNaN(vectorId)) {
@@ -164,7 +187,7 @@ router.get(
 				return;
 			}
 
-			const vector = await eizenService.getVector(vectorId);
+			const vector = await vectorStore.getVector(vectorId);
 
 			if (!vector) {
 				res
@@ -213,8 +236,8 @@ router.get(
  */
 router.get("/", async (req, res) => {
 	try {
-		const eizenService = await getAdminEizenService(req);
-		const stats = await eizenService.getStats();
+		const vectorStore = await getAdminVectorStore(req, res);
+		const stats = await vectorStore.getStats();
 
 		res.json(successResponse(stats, "Database statistics retrieved"));
 	} catch (error) {
@@ -230,12 +253,80 @@ router.get("/", async (req, res) => {
 	}
 });
 
+/**
+ * POST /admin/benchmark/recall
+ * Measure HNSW recall@k of the admin contract against exact search
+ *
+ * Admin Use Case: Tune EIZEN_M / EIZEN_EF_CONSTRUCTION / EIZEN_EF_SEARCH with
+ * real numbers, and decide which contracts are small enough for exact search
+ * (see MEMORY_EXACT_SEARCH_MAX_VECTORS)
+ *
+ * Request body (every field optional):
+ * {
+ *   "queries": 50,   // Stored vectors sampled as queries
+ *   "k": 10
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "vectorCount": 1200,
+ *     "queries": 50,
+ *     "k": 10,
+ *     "params": { "m": 16, "efConstruction": 200, "efSearch": 50 },
+ *     "recall": 0.982,
+ *     "minRecall": 0.8,
+ *     "hnswLatencyMs": 41.5,
+ *     "exactLatencyMs": 3.2,
+ *     ...
+ *   },
+ *   "message": "recall@10 is 0.982 over 50 queries"
+ * }
+ *
+ * Note: Reads every vector of the contract once, which is slow for large
+ * Eizen contracts, and compares every query with all of them. "queries" is
+ * capped at 100 and only one benchmark runs at a time (409 otherwise).
+ */
+router.post(
+	"/benchmark/recall",
+	validateData(recallBenchmarkSchema),
+	async (req, res) => {
+		try {
+			const vectorStore = await getAdminVectorStore(req, res);
+			const result = await recallBenchmarkService.run(vectorStore, req.body);
+
+			res.json(
+				successResponse(
+					result,
+					`recall@${result.k} is ${result.recall.toFixed(3)} over ${result.queries} queries`,
+				),
+			);
+		} catch (error) {
+			console.error("Admin recall benchmark error:", error);
+			res
+				.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+				.json(
+					errorResponse(
+						"Failed to measure recall",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
 /**
  * POST /admin/deploy
  * Deploy a new Eizen contract (admin operation)
  *
  * Admin Use Case: Deploy new contract instances for system scaling or testing
  *
+ * Request body (optional):
+ * {
+ *   "store": "local"   // "eizen", "memory" or "local"; defaults to VECTOR_STORE
+ * }
+ *
  * Response:
  * {
  *   "success": true,
@@ -243,12 +334,14 @@ router.get("/", async (req, res) => {
  *   "message": "Eizen contract deployed successfully"
  * }
  *
- * Note: This operation creates a new contract on Arweave blockchain
- * and returns the transaction ID for the deployed contract.
+ * Note: For Eizen this operation creates a new contract on Arweave blockchain
+ * and returns the transaction ID for the deployed contract. Memory and local
+ * stores get an ID prefixed with their backend ("local:<uuid>").
  */
 router.post("/deploy", async (req, res) => {
 	try {
-		const deployResult = await EizenService.deployNewContract();
+		const store = vectorStoreKindSchema.optional().parse(req.body?.store);
+		const deployResult = await deployVectorStore(store);
 		const contractTxId = deployResult.contractId;
 
 		res
@@ -261,6 +354,12 @@ router.post("/deploy", async (req, res) => {
 			);
 	} catch (error) {
 		console.error("Admin contract deploy error:", error);
+
+		if (error instanceof ZodError) {
+			res.status(400).json(validationErrorResponse(error.errors));
+			return;
+		}
+
 		res
 			.status(500)
 			.json(
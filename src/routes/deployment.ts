@@ -1,5 +1,5 @@
 import { type Request, type Response, Router } from "express";
-import { EizenService } from "../services/EizenService.js";
+import { deployVectorStore } from "../services/VectorStore.js";
 import { errorResponse, successResponse } from "../utils/responses.js";
 
 //Payment webhook contract deployment
@@ -38,8 +38,8 @@ router.post("/contract", async (req: Request, res: Response) => {
 		// TODO: Validate that user has valid payment/subscription
 		// const subscription = await validateUserSubscription(userId);
 
-		// Deploy new Eizen contract on Arweave
-		const deployResult = await EizenService.deployNewContract();
+		// Deploy new Eizen contract on Arweave (or a local store, see VECTOR_STORE)
+		const deployResult = await deployVectorStore();
 		const contractTxId = deployResult.contractId;
 
 		// TODO: Log deployment for audit trail
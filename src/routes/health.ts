@@ -1,7 +1,11 @@
 import { Router } from "express";
-import { EizenService } from "../services/EizenService.js";
 import { embeddingService } from "../services/EmbeddingService.js";
 import { MemoryService } from "../services/MemoryService.js";
+import {
+	acquireVectorStore,
+	getVectorStoreCacheStats,
+	withVectorStore,
+} from "../services/VectorStore.js";
 import { errorResponse, successResponse } from "../utils/responses.js";
 
 const router = Router();
@@ -36,26 +40,27 @@ router.get("/detailed", async (req, res) => {
 		const fallbackContractId = process.env.EIZEN_CONTRACT_ID;
 
 		let eizenStats = null;
+		let memoryStats = null;
 		if (fallbackContractId) {
 			try {
-				const eizenService = await EizenService.forContract(fallbackContractId);
-				eizenStats = await eizenService.getStats();
+				const { store: vectorStore, release } =
+					await acquireVectorStore(fallbackContractId);
+				res.once("close", release);
+				eizenStats = await vectorStore.getStats();
+
+				// Create memory service instance for health check
+				try {
+					const memoryService = new MemoryService(vectorStore);
+					memoryStats = await memoryService.getStats();
+				} catch (error) {
+					console.warn("Could not get Memory stats for health check:", error);
+				}
 			} catch (error) {
 				console.warn("Could not get Eizen stats for health check:", error);
 			}
 		}
 
-		// Create memory service instance for health check
-		let memoryStats = null;
-		if (fallbackContractId) {
-			try {
-				const eizenService = await EizenService.forContract(fallbackContractId);
-				const memoryService = new MemoryService(eizenService);
-				memoryStats = await memoryService.getStats();
-			} catch (error) {
-				console.warn("Could not get Memory stats for health check:", error);
-			}
-		}
+		const serviceCache = await getVectorStoreCacheStats();
 
 		// Environment info
 		const environment = {
@@ -99,10 +104,12 @@ router.get("/detailed", async (req, res) => {
 							initialized: eizenStats.isInitialized,
 							totalVectors: eizenStats.totalVectors,
 							contractId: eizenStats.contractId,
+							serviceCache,
 							note: "Stats from admin fallback contract",
 						}
 					: {
 							status: "operational",
+							serviceCache,
 							note: "Service available - uses user-provided contract IDs",
 							adminFallback:
 								"not configured (optional for admin operations only)",
@@ -153,6 +160,7 @@ router.get("/detailed", async (req, res) => {
 router.get("/eizen", async (req, res) => {
 	try {
 		const fallbackContractId = process.env.EIZEN_CONTRACT_ID;
+		const serviceCache = await getVectorStoreCacheStats();
 
 		if (!fallbackContractId) {
 			res.json(
@@ -169,6 +177,7 @@ router.get("/eizen", async (req, res) => {
 							efConstruction: process.env.EIZEN_EF_CONSTRUCTION || 200,
 							efSearch: process.env.EIZEN_EF_SEARCH || 50,
 						},
+						serviceCache,
 					},
 					"Eizen service health check",
 				),
@@ -176,8 +185,9 @@ router.get("/eizen", async (req, res) => {
 			return;
 		}
 
-		const eizenService = await EizenService.forContract(fallbackContractId);
-		const stats = await eizenService.getStats();
+		const stats = await withVectorStore(fallbackContractId, (vectorStore) =>
+			vectorStore.getStats(),
+		);
 
 		res.json(
 			successResponse(
@@ -191,6 +201,7 @@ router.get("/eizen", async (req, res) => {
 						efConstruction: process.env.EIZEN_EF_CONSTRUCTION || 200,
 						efSearch: process.env.EIZEN_EF_SEARCH || 50,
 					},
+					serviceCache,
 					architecture: "multi-tenant",
 				},
 				"Eizen service health check",
@@ -241,9 +252,9 @@ router.get("/memory", async (req, res) => {
 			return;
 		}
 
-		const eizenService = await EizenService.forContract(fallbackContractId);
-		const memoryService = new MemoryService(eizenService);
-		const stats = await memoryService.getStats();
+		const stats = await withVectorStore(fallbackContractId, (vectorStore) =>
+			new MemoryService(vectorStore).getStats(),
+		);
 
 		res.json(
 			successResponse(
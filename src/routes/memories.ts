@@ -1,35 +1,74 @@
-import { type Request, type Response, Router } from "express";
+import { once } from "node:events";
+import express, { type Request, type Response, Router } from "express";
+import httpErrors from "http-errors";
+import { ZodError, z } from "zod";
+import {
+	createMemoryCollection,
+	getMemoryCollection,
+	listMemoryCollections,
+	updateMemoryCollection,
+} from "../database/models/MemoryCollection.js";
+import {
+	getMemorySettings,
+	upsertMemorySettings,
+} from "../database/models/MemorySettings.js";
+import { apiKeyAuth } from "../middlewares/apiKeyAuth.js";
 import { validateData } from "../middlewares/validate.js";
-import { createMemorySchema, searchMemorySchema } from "../schemas/memory.js";
-import { EizenService } from "../services/EizenService.js";
+import {
+	batchCreateMemorySchema,
+	contextPackSchema,
+	createCollectionSchema,
+	createMemorySchema,
+	exportMemoriesSchema,
+	listMemoriesSchema,
+	patchMemorySchema,
+	rankingDefaultsSchema,
+	renameTagsSchema,
+	searchMemorySchema,
+	similarMemorySchema,
+	updateCollectionSchema,
+	updateMemorySchema,
+} from "../schemas/memory.js";
+import { importJobService } from "../services/ImportJobService.js";
 import { MemoryService } from "../services/MemoryService.js";
-import { errorResponse, successResponse } from "../utils/responses.js";
+import { memorySettingsCache } from "../services/MemorySettingsCache.js";
+import { memoryWriteQueue } from "../services/MemoryWriteQueue.js";
+import { acquireVectorStore } from "../services/VectorStore.js";
+import {
+	errorResponse,
+	successResponse,
+	validationErrorResponse,
+} from "../utils/responses.js";
 
 //  User-facing semantic memory API
 
 const router = Router();
 
-// TODO: Replace this with actual user lookup from SQL database
-// This will be implemented when payment gateway integration is added
-async function getUserMemoryService(req: Request): Promise<MemoryService> {
-	// TODO: Extract API key from request headers
-	// const apiKey = req.headers['x-api-key'] as string;
+// All memory routes are scoped to the tenant that owns the caller's API key
+router.use(apiKeyAuth);
 
-	// TODO: Look up user's contract ID from database
-	// const user = await getUserByApiKey(apiKey);
-	// const eizenService = await EizenService.forContract(user.contractId);
-	// return new MemoryService(eizenService);
-
-	// For now, use environment variable as fallback (single tenant mode)
-	const contractId = process.env.EIZEN_CONTRACT_ID;
+/**
+ * Build a MemoryService for the tenant resolved by `apiKeyAuth`
+ *
+ * The tenant's vector store is leased until the response closes.
+ *
+ * @param req - Express request carrying the authenticated tenant's contract ID
+ * @param res - Express response whose end releases the vector store
+ * @returns Promise<MemoryService> - Memory service bound to the tenant's contract
+ * @throws Error if the request has not been authenticated
+ */
+async function getUserMemoryService(
+	req: Request,
+	res: Response,
+): Promise<MemoryService> {
+	const contractId = req.contractId;
 	if (!contractId) {
-		throw new Error(
-			"No contract ID available. Please implement user lookup or set EIZEN_CONTRACT_ID",
-		);
+		throw new Error("No contract ID resolved for this request");
 	}
 
-	const eizenService = await EizenService.forContract(contractId);
-	return new MemoryService(eizenService);
+	const { store, release } = await acquireVectorStore(contractId);
+	res.once("close", release);
+	return new MemoryService(store, req.userId);
 }
 
 /**
@@ -46,21 +85,66 @@ async function getUserMemoryService(req: Request): Promise<MemoryService> {
  *     "tags": ["preference", "color"],
  *     "timestamp": "2025-06-06T14:30:00Z",
  *     "client": "cursor"
- *   }
+ *   },
+ *   "dedupe": "merge",
+ *   "collection": "personal"
  * }
+ *
+ * `collection` must name an existing collection (see /memories/collections).
+ * `dedupe` decides what happens when a near-duplicate memory already exists:
+ * "reject" responds 409, "merge" stores the combined metadata as a new
+ * version of the existing memory (200), "insert" stores the content anyway
+ * (201). The response reports the `action` taken and the `existingMemoryId`.
+ *
+ * With `?async=true` the write is queued instead and the endpoint responds
+ * 202 with a `jobId` right away; poll GET /memories/jobs/:jobId for the
+ * outcome. Until it is stored, the memory is returned by searches under
+ * `pending`.
  */
 router.post("/", validateData(createMemorySchema), async (req, res) => {
 	try {
-		const memoryService = await getUserMemoryService(req);
+		if (req.query.async === "true") {
+			const job = await memoryWriteQueue.enqueue(
+				req.contractId as string,
+				req.userId,
+				req.body,
+			);
+			res
+				.status(202)
+				.json(
+					successResponse(
+						{ jobId: job.id, status: job.status },
+						"Memory write queued",
+					),
+				);
+			return;
+		}
+
+		const memoryService = await getUserMemoryService(req, res);
 		const result = await memoryService.createMemory(req.body);
 
+		if (result.action === "rejected") {
+			res.status(409).json({
+				...errorResponse("Near-duplicate memory exists", result.message),
+				data: result,
+			});
+			return;
+		}
+
 		res
-			.status(201)
-			.json(successResponse(result, "Memory created successfully"));
+			.status(result.action === "merged" ? 200 : 201)
+			.json(
+				successResponse(
+					result,
+					result.action === "merged"
+						? "Memory merged into existing memory"
+						: "Memory created successfully",
+				),
+			);
 	} catch (error) {
 		console.error("Memory creation error:", error);
 		res
-			.status(500)
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
 			.json(
 				errorResponse(
 					"Failed to create memory",
@@ -70,6 +154,58 @@ router.post("/", validateData(createMemorySchema), async (req, res) => {
 	}
 });
 
+/**
+ * POST /memories/batch
+ * Create up to 500 memories in one request
+ *
+ * Contents are embedded in chunked batches and stored via Eizen. Each item
+ * gets its own result, so one bad item does not fail the whole batch.
+ * Responds 207 when any item failed, 201 otherwise; near-duplicates that were
+ * merged or rejected by the dedupe policy are counted separately.
+ *
+ * The request body may be up to MEMORY_BATCH_MAX_SIZE (default 10mb). It is
+ * only parsed once `apiKeyAuth` has accepted the caller.
+ *
+ * Request body:
+ * {
+ *   "memories": [
+ *     { "content": "User's favorite color is blue", "metadata": { "tags": ["color"] } },
+ *     { "content": "User works remotely on Fridays" }
+ *   ]
+ * }
+ */
+router.post(
+	"/batch",
+	// Batch creates carry up to 500 memories, far beyond the default 100kb body limit
+	express.json({ limit: process.env.MEMORY_BATCH_MAX_SIZE || "10mb" }),
+	validateData(batchCreateMemorySchema),
+	async (req, res) => {
+		try {
+			const memoryService = await getUserMemoryService(req, res);
+			const result = await memoryService.createMemories(req.body);
+
+			res
+				.status(result.failed === 0 ? 201 : 207)
+				.json(
+					successResponse(
+						result,
+						`Created ${result.created} of ${result.results.length} memories`,
+					),
+				);
+		} catch (error) {
+			console.error("Memory batch creation error:", error);
+			res
+				.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+				.json(
+					errorResponse(
+						"Failed to create memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
 /**
  * GET /memories/search
  * Search for memories using natural language query
@@ -78,7 +214,21 @@ router.post("/", validateData(createMemorySchema), async (req, res) => {
  * Query parameters:
  * - query: The search text
  * - k: Number of results (optional, default 10)
- * - filters: Optional JSON string with search filters
+ * - filters: Optional JSON string with a search filter expression (see searchFiltersSchema)
+ * - include_history: "true" to also return superseded versions (optional)
+ * - mode: "vector" (default), "keyword" or "hybrid" (optional)
+ * - diversity: MMR lambda in [0, 1] to de-duplicate results (optional)
+ * - min_score: Minimum similarity score in [0, 1] (optional)
+ * - exact: "true" to compare with every stored vector instead of the
+ *   approximate HNSW index; slower, but never misses a match (optional)
+ * - collection: Only search memories in this collection (optional)
+ * - ranking: Optional JSON string with weighted ranking parameters, e.g.
+ *   {"recency": 0.5, "half_life_hours": 48} (see rankingSchema)
+ * - facets: Comma-separated facets to count over the results, any of
+ *   "tags", "client" and "importance" (optional)
+ *
+ * Each memory carries `distance` (cosine distance) and `score` (similarity in
+ * [0, 1]); the response's `scoring` field documents the conversion.
  */
 router.get("/search", async (req: Request, res: Response): Promise<void> => {
 	try {
@@ -101,34 +251,54 @@ router.get("/search", async (req: Request, res: Response): Promise<void> => {
 			query,
 			k: k ? Number.parseInt(k as string, 10) : 10,
 			filters: filters ? JSON.parse(filters as string) : undefined,
+			include_history: req.query.include_history === "true",
+			mode: req.query.mode,
+			diversity: req.query.diversity ? Number(req.query.diversity) : undefined,
+			min_score: req.query.min_score ? Number(req.query.min_score) : undefined,
+			exact: req.query.exact === "true",
+			collection: req.query.collection,
+			ranking: req.query.ranking
+				? JSON.parse(req.query.ranking as string)
+				: undefined,
+			facets: req.query.facets
+				? String(req.query.facets).split(",")
+				: undefined,
 		};
 
 		// Validate the search request
 		const validatedRequest = searchMemorySchema.parse(searchRequest);
 
-		const memoryService = await getUserMemoryService(req);
+		const memoryService = await getUserMemoryService(req, res);
 		const results = await memoryService.searchMemories(validatedRequest);
 
 		res.json(
-			successResponse(results, `Found ${results.length} relevant memories`),
+			successResponse(
+				results,
+				`Found ${results.memories.length} relevant memories`,
+			),
 		);
 	} catch (error) {
 		console.error("Memory search error:", error);
 
+		if (error instanceof ZodError) {
+			res.status(400).json(validationErrorResponse(error.errors));
+			return;
+		}
+
 		if (error instanceof SyntaxError) {
 			res
 				.status(400)
 				.json(
 					errorResponse(
-						"Invalid filters parameter",
-						"Filters must be valid JSON",
+						"Invalid JSON parameter",
+						"Filters and ranking must be valid JSON",
 					),
 				);
 			return;
 		}
 
 		res
-			.status(500)
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
 			.json(
 				errorResponse(
 					"Failed to search memories",
@@ -147,24 +317,30 @@ router.get("/search", async (req: Request, res: Response): Promise<void> => {
  * {
  *   "query": "favorite color preference",
  *   "k": 5,
+ *   "min_score": 0.4,
  *   "filters": {
- *     "tags": ["preference", "color"],
- *     "importance_min": 5
+ *     "and": [
+ *       { "tags": { "any": ["preference", "color"] } },
+ *       { "range": { "field": "importance", "gte": 5 } }
+ *     ]
  *   }
  * }
  */
 router.post("/search", validateData(searchMemorySchema), async (req, res) => {
 	try {
-		const memoryService = await getUserMemoryService(req);
+		const memoryService = await getUserMemoryService(req, res);
 		const results = await memoryService.searchMemories(req.body);
 
 		res.json(
-			successResponse(results, `Found ${results.length} relevant memories`),
+			successResponse(
+				results,
+				`Found ${results.memories.length} relevant memories`,
+			),
 		);
 	} catch (error) {
 		console.error("Memory search error:", error);
 		res
-			.status(500)
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
 			.json(
 				errorResponse(
 					"Failed to search memories",
@@ -174,13 +350,785 @@ router.post("/search", validateData(searchMemorySchema), async (req, res) => {
 	}
 });
 
+/**
+ * POST /memories/context
+ * Build a prompt-ready block of the memories most relevant to a query
+ *
+ * Hits are deduplicated and added in ranking order while they fit within
+ * `max_tokens`, counted with the tokenizer named in the response. Entries are
+ * numbered `[n]`; `citations` maps each number back to its memory ID.
+ *
+ * Request body:
+ * {
+ *   "query": "how does the user like to be contacted?",
+ *   "max_tokens": 500,
+ *   "k": 20,                    // optional, candidates considered
+ *   "mode": "hybrid"            // optional, plus any search option
+ * }
+ */
+router.post("/context", validateData(contextPackSchema), async (req, res) => {
+	try {
+		const memoryService = await getUserMemoryService(req, res);
+		const result = await memoryService.buildContext(req.body);
+
+		res.json(
+			successResponse(
+				result,
+				`Packed ${result.citations.length} memories into ${result.tokens} tokens`,
+			),
+		);
+	} catch (error) {
+		console.error("Context pack error:", error);
+		res
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+			.json(
+				errorResponse(
+					"Failed to build context",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * GET /memories/list
+ * Browse the tenant's memories page by page, without a search query
+ *
+ * Query parameters:
+ * - limit: Page size (optional, default 20, max 100)
+ * - cursor: `nextCursor` from the previous page (optional)
+ * - sort: "createdAt" (default) or "importance" (optional)
+ * - order: "desc" (default) or "asc" (optional)
+ * - filters: Optional JSON string with a search filter expression (see searchFiltersSchema)
+ * - include_history: "true" to also list superseded versions (optional)
+ * - collection: Only list memories in this collection (optional)
+ *
+ * Each page scans the tenant's whole contract, as the sort keys are stored
+ * in memory metadata; only the page itself is held and sorted.
+ */
+router.get("/list", async (req: Request, res: Response): Promise<void> => {
+	try {
+		const { limit, cursor, sort, order, filters, collection } = req.query;
+
+		const listRequest = listMemoriesSchema.parse({
+			limit: limit ? Number.parseInt(limit as string, 10) : undefined,
+			cursor,
+			sort,
+			order,
+			filters: filters ? JSON.parse(filters as string) : undefined,
+			include_history: req.query.include_history === "true",
+			collection,
+		});
+
+		const memoryService = await getUserMemoryService(req, res);
+		const result = await memoryService.listMemories(listRequest);
+
+		res.json(
+			successResponse(
+				result,
+				`Listed ${result.memories.length} of ${result.total} memories`,
+			),
+		);
+	} catch (error) {
+		console.error("Memory listing error:", error);
+
+		if (error instanceof ZodError) {
+			res.status(400).json(validationErrorResponse(error.errors));
+			return;
+		}
+
+		if (error instanceof SyntaxError) {
+			res
+				.status(400)
+				.json(
+					errorResponse(
+						"Invalid filters parameter",
+						"Filters must be valid JSON",
+					),
+				);
+			return;
+		}
+
+		res
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+			.json(
+				errorResponse(
+					"Failed to list memories",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * GET /memories/export
+ * Stream the tenant's memories as newline-delimited JSON (one memory per line)
+ *
+ * Memories are written as they are read from the contract, so exports of any
+ * size run in constant memory. If reading fails mid-stream the connection is
+ * aborted, so a truncated export can't be mistaken for a complete one.
+ *
+ * Query parameters:
+ * - filters: Optional JSON string with a search filter expression (see searchFiltersSchema)
+ * - include_history: "true" to also export superseded versions (optional)
+ * - include_vectors: "true" to include each memory's embedding and model (optional)
+ * - collection: Only export memories in this collection (optional)
+ */
+router.get("/export", async (req: Request, res: Response): Promise<void> => {
+	let streaming = false;
+
+	try {
+		const { filters } = req.query;
+
+		const exportRequest = exportMemoriesSchema.parse({
+			filters: filters ? JSON.parse(filters as string) : undefined,
+			include_history: req.query.include_history === "true",
+			include_vectors: req.query.include_vectors === "true",
+			collection: req.query.collection,
+		});
+
+		const memoryService = await getUserMemoryService(req, res);
+		const memories = await memoryService.exportMemories(exportRequest);
+
+		res.status(200);
+		res.setHeader("Content-Type", "application/x-ndjson");
+		res.setHeader(
+			"Content-Disposition",
+			`attachment; filename="memories-${req.contractId}.ndjson"`,
+		);
+		streaming = true;
+
+		for await (const memory of memories) {
+			if (res.destroyed) {
+				return; // Client went away; stop reading the contract
+			}
+
+			// Respect backpressure instead of buffering the export in memory
+			if (!res.write(`${JSON.stringify(memory)}\n`)) {
+				await Promise.race([once(res, "drain"), once(res, "close")]);
+			}
+		}
+
+		res.end();
+	} catch (error) {
+		console.error("Memory export error:", error);
+
+		if (streaming) {
+			res.destroy(error instanceof Error ? error : undefined);
+			return;
+		}
+
+		if (error instanceof ZodError) {
+			res.status(400).json(validationErrorResponse(error.errors));
+			return;
+		}
+
+		if (error instanceof SyntaxError) {
+			res
+				.status(400)
+				.json(
+					errorResponse(
+						"Invalid filters parameter",
+						"Filters must be valid JSON",
+					),
+				);
+			return;
+		}
+
+		res
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+			.json(
+				errorResponse(
+					"Failed to export memories",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * POST /memories/import
+ * Import memories from an NDJSON upload (the format produced by GET /memories/export)
+ *
+ * Each line is validated like a POST /memories body and may carry the
+ * exported `vector` and `model`; the vector is reused when it matches the
+ * current embedding model, otherwise the content is re-embedded. Lines with
+ * `supersededBy` set (older versions, exported with `include_history`) are
+ * skipped. The import runs as a background job: responds 202 with the job,
+ * whose progress and per-line error report are available from
+ * GET /memories/import/:jobId.
+ *
+ * Content-Type: application/x-ndjson (or text/plain)
+ */
+router.post(
+	"/import",
+	express.text({
+		type: ["application/x-ndjson", "text/plain"],
+		limit: process.env.MEMORY_IMPORT_MAX_SIZE || "50mb",
+	}),
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			if (typeof req.body !== "string" || req.body.trim().length === 0) {
+				res
+					.status(400)
+					.json(
+						errorResponse(
+							"Invalid import body",
+							"Send the memories as an application/x-ndjson body, one memory per line",
+						),
+					);
+				return;
+			}
+
+			// The import outlives the response, so it holds its own lease on the store
+			const contractId = req.contractId as string;
+			const { store, release } = await acquireVectorStore(contractId);
+			const job = await importJobService.startImport(
+				new MemoryService(store, req.userId),
+				contractId,
+				req.body,
+				release,
+			);
+
+			res
+				.status(202)
+				.json(
+					successResponse(job, `Import of ${job.totalLines} memories started`),
+				);
+		} catch (error) {
+			console.error("Memory import error:", error);
+			res
+				.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+				.json(
+					errorResponse(
+						"Failed to start import",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/import/:jobId
+ * Get the progress and error report of an import job
+ */
+router.get(
+	"/import/:jobId",
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const jobId = req.params.jobId as string;
+			const job = z.string().uuid().safeParse(jobId).success
+				? await importJobService.getJob(req.contractId as string, jobId)
+				: undefined;
+
+			if (!job) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Import job not found",
+							`No import job with ID ${jobId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(
+				successResponse(
+					job,
+					`Import job ${job.status}: ${job.processedLines} of ${job.totalLines} lines processed`,
+				),
+			);
+		} catch (error) {
+			console.error("Import job lookup error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to get import job",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/jobs/:jobId
+ * Get the status of a queued memory write (POST /memories?async=true)
+ *
+ * Query parameters:
+ * - wait: Seconds to wait for the write to complete or fail (max 30)
+ *
+ * Once completed, `result` holds the `action` taken and the `memoryId`.
+ */
+router.get(
+	"/jobs/:jobId",
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const jobId = req.params.jobId as string;
+			const wait = Math.min(Math.max(Number(req.query.wait) || 0, 0), 30);
+
+			const job = z.string().uuid().safeParse(jobId).success
+				? await memoryWriteQueue.getJob(
+						req.contractId as string,
+						jobId,
+						wait * 1000,
+					)
+				: undefined;
+
+			if (!job) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Write job not found",
+							`No memory write job with ID ${jobId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(job, `Memory write ${job.status}`));
+		} catch (error) {
+			console.error("Write job lookup error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to get write job",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/collections
+ * List the tenant's collections
+ */
+router.get("/collections", async (req, res) => {
+	try {
+		const collections = await listMemoryCollections(req.userId as string);
+
+		res.json(
+			successResponse(collections, `Found ${collections.length} collections`),
+		);
+	} catch (error) {
+		console.error("Collection listing error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to list collections",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * POST /memories/collections
+ * Create a named collection; memories are put in it by passing `collection` on create
+ *
+ * Request body:
+ * {
+ *   "name": "project-x",
+ *   "description": "Notes about project X"
+ * }
+ */
+router.post(
+	"/collections",
+	validateData(createCollectionSchema),
+	async (req, res) => {
+		try {
+			const collection = await createMemoryCollection(
+				req.userId as string,
+				req.body.name,
+				req.body.description,
+			);
+
+			if (!collection) {
+				res
+					.status(409)
+					.json(
+						errorResponse(
+							"Collection already exists",
+							`A collection named "${req.body.name}" already exists`,
+						),
+					);
+				return;
+			}
+
+			res
+				.status(201)
+				.json(successResponse(collection, "Collection created successfully"));
+		} catch (error) {
+			console.error("Collection creation error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to create collection",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/collections/:name
+ * Get a collection by name
+ */
+router.get(
+	"/collections/:name",
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const collection = await getMemoryCollection(
+				req.userId as string,
+				req.params.name as string,
+			);
+
+			if (!collection) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Collection not found",
+							`No collection named "${req.params.name}"`,
+						),
+					);
+				return;
+			}
+
+			res.json(
+				successResponse(collection, "Collection retrieved successfully"),
+			);
+		} catch (error) {
+			console.error("Collection retrieval error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to retrieve collection",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * PATCH /memories/collections/:name
+ * Update a collection's description
+ *
+ * Request body:
+ * {
+ *   "description": "Archived notes about project X"
+ * }
+ */
+router.patch(
+	"/collections/:name",
+	validateData(updateCollectionSchema),
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const collection = await updateMemoryCollection(
+				req.userId as string,
+				req.params.name as string,
+				req.body,
+			);
+
+			if (!collection) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Collection not found",
+							`No collection named "${req.params.name}"`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(collection, "Collection updated successfully"));
+		} catch (error) {
+			console.error("Collection update error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to update collection",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * DELETE /memories/collections/:name
+ * Delete a collection
+ *
+ * Responds 409 while the collection still holds memories, unless
+ * `?delete_memories=true` is passed to delete them along with it.
+ */
+router.delete(
+	"/collections/:name",
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(req, res);
+			const result = await memoryService.deleteCollection(
+				req.params.name as string,
+				{ deleteMemories: req.query.delete_memories === "true" },
+			);
+
+			if (!result) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Collection not found",
+							`No collection named "${req.params.name}"`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(result, "Collection deleted successfully"));
+		} catch (error) {
+			console.error("Collection deletion error:", error);
+			res
+				.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+				.json(
+					errorResponse(
+						"Failed to delete collection",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/settings/ranking
+ * Get the tenant's default weighted ranking parameters
+ */
+router.get("/settings/ranking", async (req, res) => {
+	try {
+		const settings = await getMemorySettings(req.userId as string);
+
+		res.json(
+			successResponse(
+				settings?.ranking ?? { enabled: false },
+				"Ranking defaults retrieved successfully",
+			),
+		);
+	} catch (error) {
+		console.error("Ranking defaults retrieval error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to retrieve ranking defaults",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * PUT /memories/settings/ranking
+ * Replace the tenant's default weighted ranking parameters
+ *
+ * Search requests fall back to these for any ranking field they don't set.
+ * With `enabled: true`, searches are weighted even without a `ranking` field.
+ * Other API instances pick up the change within MEMORY_SETTINGS_CACHE_TTL_MS.
+ *
+ * Request body:
+ * {
+ *   "enabled": true,
+ *   "similarity": 1,
+ *   "recency": 0.5,
+ *   "importance": 0.3,
+ *   "half_life_hours": 72
+ * }
+ */
+router.put(
+	"/settings/ranking",
+	validateData(rankingDefaultsSchema),
+	async (req, res) => {
+		try {
+			const settings = await upsertMemorySettings(req.userId as string, {
+				ranking: req.body,
+			});
+			memorySettingsCache.set(settings.userId, settings);
+
+			res.json(
+				successResponse(
+					settings.ranking,
+					"Ranking defaults updated successfully",
+				),
+			);
+		} catch (error) {
+			console.error("Ranking defaults update error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to update ranking defaults",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/tags
+ * List every tag in use with the number of memories carrying it
+ *
+ * Query parameters:
+ * - collection: Only count memories in this collection (optional)
+ */
+router.get("/tags", async (req: Request, res: Response): Promise<void> => {
+	try {
+		const collection =
+			typeof req.query.collection === "string"
+				? req.query.collection
+				: undefined;
+
+		const memoryService = await getUserMemoryService(req, res);
+		const tags = await memoryService.listTags({ collection });
+
+		res.json(successResponse(tags, `Found ${tags.length} tags`));
+	} catch (error) {
+		console.error("Tag listing error:", error);
+		res
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+			.json(
+				errorResponse(
+					"Failed to list tags",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * POST /memories/tags/rename
+ * Rename a tag, or merge several tags into one, across all memories
+ *
+ * Every affected memory gets a new version, so memory IDs change.
+ *
+ * Request body:
+ * {
+ *   "from": ["prefs", "preferences"],
+ *   "to": "preference",
+ *   "collection": "work"        // optional
+ * }
+ */
+router.post(
+	"/tags/rename",
+	validateData(renameTagsSchema),
+	async (req, res) => {
+		try {
+			const memoryService = await getUserMemoryService(req, res);
+			const result = await memoryService.renameTags(req.body);
+
+			res.json(
+				successResponse(
+					result,
+					`Renamed tags on ${result.updatedMemories} memories`,
+				),
+			);
+		} catch (error) {
+			console.error("Tag rename error:", error);
+			res
+				.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+				.json(
+					errorResponse(
+						"Failed to rename tags",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * POST /memories/purge
+ * Permanently remove deleted memories by rebuilding the tenant's index
+ *
+ * Copies every non-deleted memory into a freshly deployed contract and
+ * switches the caller's API key over to it. Memory IDs change after a purge.
+ * Writes answer 423 while the purge runs and should be retried; queued
+ * writes are carried over to the new contract.
+ */
+router.post("/purge", async (req, res) => {
+	try {
+		const memoryService = await getUserMemoryService(req, res);
+		const result = await memoryService.purgeDeletedMemories();
+
+		res.json(
+			successResponse(
+				result,
+				`Purged ${result.purgedMemories} deleted memories`,
+			),
+		);
+	} catch (error) {
+		console.error("Memory purge error:", error);
+		res
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+			.json(
+				errorResponse(
+					"Failed to purge memories",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
+/**
+ * POST /memories/index/rebuild
+ * Rebuild the tenant's keyword (BM25) index from the contract contents
+ *
+ * The index is built automatically on the first keyword or hybrid search;
+ * use this after out-of-band changes to the contract.
+ */
+router.post("/index/rebuild", async (req, res) => {
+	try {
+		const memoryService = await getUserMemoryService(req, res);
+		const result = await memoryService.rebuildKeywordIndex();
+
+		res.json(
+			successResponse(
+				result,
+				`Keyword index rebuilt with ${result.indexedMemories} memories`,
+			),
+		);
+	} catch (error) {
+		console.error("Keyword index rebuild error:", error);
+		res
+			.status(500)
+			.json(
+				errorResponse(
+					"Failed to rebuild keyword index",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
 /**
  * GET /memories/:id
  * Get a specific memory by its vector ID
  */
 router.get("/:id", async (req: Request, res: Response): Promise<void> => {
 	try {
-		const memoryService = await getUserMemoryService(req);
+		const memoryService = await getUserMemoryService(req, res);
 		const memoryId = Number.parseInt(req.params.id, 10);
 
 		if (Number.isNaN(memoryId)) {
@@ -218,13 +1166,295 @@ router.get("/:id", async (req: Request, res: Response): Promise<void> => {
 	}
 });
 
+/**
+ * Build a handler that stores a new version of a memory
+ *
+ * @param merge - Carry over missing content/metadata from the previous version (PATCH)
+ */
+function updateMemoryHandler(merge: boolean) {
+	return async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(req, res);
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const result = await memoryService.updateMemory(memoryId, req.body, {
+				merge,
+			});
+
+			if (!result) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(successResponse(result, "Memory updated successfully"));
+		} catch (error) {
+			console.error("Memory update error:", error);
+			res
+				.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+				.json(
+					errorResponse(
+						"Failed to update memory",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	};
+}
+
+/**
+ * PUT /memories/:id
+ * Replace a memory's content and metadata
+ *
+ * Stores a new version that supersedes the given one. Only the latest
+ * version can be updated (409 otherwise).
+ *
+ * Request body: same as POST /memories
+ */
+router.put(
+	"/:id",
+	validateData(updateMemorySchema),
+	updateMemoryHandler(false),
+);
+
+/**
+ * PATCH /memories/:id
+ * Partially update a memory
+ *
+ * Omitted content is carried over and metadata is merged into the previous
+ * version's metadata before the new version is stored.
+ *
+ * Request body:
+ * {
+ *   "metadata": { "importance": 9 }
+ * }
+ */
+router.patch(
+	"/:id",
+	validateData(patchMemorySchema),
+	updateMemoryHandler(true),
+);
+
+/**
+ * GET /memories/:id/history
+ * List every version of a memory, newest first
+ */
+router.get(
+	"/:id/history",
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryService = await getUserMemoryService(req, res);
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const history = await memoryService.getMemoryHistory(memoryId);
+
+			if (!history) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(
+				successResponse(history, `Found ${history.length} memory versions`),
+			);
+		} catch (error) {
+			console.error("Memory history error:", error);
+			res
+				.status(500)
+				.json(
+					errorResponse(
+						"Failed to retrieve memory history",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * GET /memories/:id/similar
+ * Find memories related to an existing memory, using its stored vector
+ *
+ * Query parameters:
+ * - k: Number of results (optional, default 10)
+ * - filters: Optional JSON string with a search filter expression (see searchFiltersSchema)
+ * - include_history: "true" to also return superseded versions (optional)
+ * - min_score: Minimum similarity score in [0, 1] (optional)
+ * - exact: "true" to compare with every stored vector instead of the HNSW index (optional)
+ * - collection: Only return memories in this collection (optional)
+ */
+router.get(
+	"/:id/similar",
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const memoryId = Number.parseInt(req.params.id as string, 10);
+
+			if (Number.isNaN(memoryId)) {
+				res
+					.status(400)
+					.json(
+						errorResponse("Invalid memory ID", "Memory ID must be a number"),
+					);
+				return;
+			}
+
+			const { k, filters } = req.query;
+			const similarRequest = similarMemorySchema.parse({
+				k: k ? Number.parseInt(k as string, 10) : 10,
+				filters: filters ? JSON.parse(filters as string) : undefined,
+				include_history: req.query.include_history === "true",
+				min_score: req.query.min_score
+					? Number(req.query.min_score)
+					: undefined,
+				exact: req.query.exact === "true",
+				collection: req.query.collection,
+			});
+
+			const memoryService = await getUserMemoryService(req, res);
+			const results = await memoryService.findSimilarMemories(
+				memoryId,
+				similarRequest,
+			);
+
+			if (!results) {
+				res
+					.status(404)
+					.json(
+						errorResponse(
+							"Memory not found",
+							`No memory found with ID: ${memoryId}`,
+						),
+					);
+				return;
+			}
+
+			res.json(
+				successResponse(
+					results,
+					`Found ${results.memories.length} related memories`,
+				),
+			);
+		} catch (error) {
+			console.error("Similar memories error:", error);
+
+			if (error instanceof ZodError) {
+				res.status(400).json(validationErrorResponse(error.errors));
+				return;
+			}
+
+			if (error instanceof SyntaxError) {
+				res
+					.status(400)
+					.json(
+						errorResponse(
+							"Invalid filters parameter",
+							"Filters must be valid JSON",
+						),
+					);
+				return;
+			}
+
+			res
+				.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+				.json(
+					errorResponse(
+						"Failed to find similar memories",
+						error instanceof Error ? error.message : "Unknown error",
+					),
+				);
+		}
+	},
+);
+
+/**
+ * DELETE /memories/:id
+ * Soft-delete a memory by its vector ID
+ *
+ * The memory is tombstoned and immediately excluded from search and lookup.
+ * Use POST /memories/purge to remove it from the contract for good.
+ */
+router.delete("/:id", async (req: Request, res: Response): Promise<void> => {
+	try {
+		const memoryService = await getUserMemoryService(req, res);
+		const memoryId = Number.parseInt(req.params.id as string, 10);
+
+		if (Number.isNaN(memoryId)) {
+			res
+				.status(400)
+				.json(errorResponse("Invalid memory ID", "Memory ID must be a number"));
+			return;
+		}
+
+		const deleted = await memoryService.deleteMemory(memoryId);
+
+		if (!deleted) {
+			res
+				.status(404)
+				.json(
+					errorResponse(
+						"Memory not found",
+						`No memory found with ID: ${memoryId}`,
+					),
+				);
+			return;
+		}
+
+		res.json(
+			successResponse(
+				{ memoryId, deleted: true },
+				"Memory deleted successfully",
+			),
+		);
+	} catch (error) {
+		console.error("Memory delete error:", error);
+		res
+			.status(httpErrors.isHttpError(error) ? error.statusCode : 500)
+			.json(
+				errorResponse(
+					"Failed to delete memory",
+					error instanceof Error ? error.message : "Unknown error",
+				),
+			);
+	}
+});
+
 /**
  * GET /memories
  * Get memory statistics and database info
  */
 router.get("/", async (req, res) => {
 	try {
-		const memoryService = await getUserMemoryService(req);
+		const memoryService = await getUserMemoryService(req, res);
 		const stats = await memoryService.getStats();
 
 		res.json(successResponse(stats, "Memory statistics retrieved"));
@@ -6,7 +6,22 @@ export const emailSchema = z.string().email();
 export const arweaveTransactionIdSchema = z.string().length(43); // Arweave TX IDs are exactly 43 chars
 export const apiKeySchema = z.string(); // API key
 
+// Metadata keys written by the API itself; clients can't set them
+export const systemMetadataKeys = [
+	"content",
+	"version",
+	"supersedes",
+	"createdAt",
+	"chunkCount",
+	"passage",
+	"parentId",
+	"chunkIndex",
+	"collection",
+];
+
 // Memory metadata schema - structured metadata for AI memories
+// Any other key is stored as given (e.g. "project": { "name": "atlas" }) and
+// can be used in search filters, except the system keys above
 export const memoryMetadataSchema = z
 	.object({
 		context: z.string().optional(), // "preference setting", "casual conversation"
@@ -14,25 +29,172 @@ export const memoryMetadataSchema = z
 		tags: z.array(z.string()).optional(), // ["preference", "color", "personal" etc....]
 		timestamp: z.string().datetime().optional(), // ISO 8601 timestamp
 		client: z.string().optional().default("unknown"), // Conversation identifier
+		expires_at: z.string().datetime().optional(), // ISO 8601 time after which the memory is forgotten
+		ttl_seconds: z.number().int().positive().optional(), // Alternative to expires_at, relative to the write
 	})
+	.catchall(z.unknown())
 	.describe("Structured metadata for AI memory storage that Api will received");
 
-// Search filters for memory queries
+/**
+ * Refinement rejecting client metadata that uses a system key
+ */
+export const withoutSystemKeys = {
+	check: (metadata: Record<string, unknown>) =>
+		!systemMetadataKeys.some((key) => Object.hasOwn(metadata, key)),
+	message: `Metadata keys ${systemMetadataKeys.join(", ")} are reserved`,
+};
+
+// Search filters for memory queries - a boolean expression over memory metadata
+// Every node is an object with exactly one operator key, e.g.
+// {
+//   "and": [
+//     { "tags": { "all": ["preference"], "none": ["archived"] } },
+//     { "range": { "field": "importance", "gte": 5 } },
+//     { "or": [
+//       { "eq": { "field": "client", "value": "cursor" } },
+//       { "not": { "exists": { "field": "context" } } }
+//     ] }
+//   ]
+// }
+// `field` is any metadata key; nested keys use dot notation ("project.name")
+// Expressions may nest and/or/not up to MAX_FILTER_DEPTH levels and hold up
+// to MAX_FILTER_NODES operators in total
+const filterFieldSchema = z.string().min(1).max(200);
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+const rangeBoundSchema = z.union([z.number(), z.string().datetime()]); // Numbers or ISO 8601 timestamps
+
+export type FilterValue = z.infer<typeof filterValueSchema>;
+export type RangeBound = z.infer<typeof rangeBoundSchema>;
+
+export type SearchFilters =
+	| { and: SearchFilters[] } // Every child must match
+	| { or: SearchFilters[] } // At least one child must match
+	| { not: SearchFilters } // Child must not match
+	| { eq: { field: string; value: FilterValue } } // Exact match
+	| { in: { field: string; values: FilterValue[] } } // Exact match against any value
+	| {
+			range: {
+				field: string;
+				gt?: RangeBound;
+				gte?: RangeBound;
+				lt?: RangeBound;
+				lte?: RangeBound;
+			};
+	  } // Numeric or date range
+	| { exists: { field: string } } // Field is present
+	| { contains: { field: string; value: FilterValue } } // Substring of a string or element of an array
+	| { tags: { all?: string[]; any?: string[]; none?: string[] } }; // Tag set semantics
+
+const MAX_FILTER_DEPTH = 10;
+const MAX_FILTER_NODES = 200;
+
+// Checks the size of an unvalidated expression, stopping as soon as a limit is passed
+function exceedsFilterLimits(filters: unknown): boolean {
+	let nodes = 0;
+	const visit = (node: unknown, depth: number): boolean => {
+		nodes++;
+		if (depth > MAX_FILTER_DEPTH || nodes > MAX_FILTER_NODES) {
+			return true;
+		}
+		if (typeof node !== "object" || node === null) {
+			return false;
+		}
+
+		const { and, or, not } = node as Record<string, unknown>;
+		const children = [
+			...(Array.isArray(and) ? and : []),
+			...(Array.isArray(or) ? or : []),
+			...(not !== undefined ? [not] : []),
+		];
+		return children.some((child) => visit(child, depth + 1));
+	};
+	return visit(filters, 1);
+}
+
+const filterExpressionSchema: z.ZodType<SearchFilters> = z.lazy(() =>
+	z.union([
+		z.object({ and: z.array(filterExpressionSchema).min(1) }).strict(),
+		z.object({ or: z.array(filterExpressionSchema).min(1) }).strict(),
+		z.object({ not: filterExpressionSchema }).strict(),
+		z
+			.object({
+				eq: z.object({ field: filterFieldSchema, value: filterValueSchema }),
+			})
+			.strict(),
+		z
+			.object({
+				in: z.object({
+					field: filterFieldSchema,
+					values: z.array(filterValueSchema).min(1),
+				}),
+			})
+			.strict(),
+		z
+			.object({
+				range: z
+					.object({
+						field: filterFieldSchema,
+						gt: rangeBoundSchema.optional(),
+						gte: rangeBoundSchema.optional(),
+						lt: rangeBoundSchema.optional(),
+						lte: rangeBoundSchema.optional(),
+					})
+					.refine(
+						(range) =>
+							range.gt !== undefined ||
+							range.gte !== undefined ||
+							range.lt !== undefined ||
+							range.lte !== undefined,
+						{ message: "Range needs at least one of gt, gte, lt, lte" },
+					),
+			})
+			.strict(),
+		z.object({ exists: z.object({ field: filterFieldSchema }) }).strict(),
+		z
+			.object({
+				contains: z.object({
+					field: filterFieldSchema,
+					value: filterValueSchema,
+				}),
+			})
+			.strict(),
+		z
+			.object({
+				tags: z
+					.object({
+						all: z.array(z.string()).min(1).optional(), // Memory has every tag
+						any: z.array(z.string()).min(1).optional(), // Memory has at least one tag
+						none: z.array(z.string()).min(1).optional(), // Memory has none of the tags
+					})
+					.refine(
+						(tags) =>
+							tags.all !== undefined ||
+							tags.any !== undefined ||
+							tags.none !== undefined,
+						{ message: "Tag filter needs at least one of all, any, none" },
+					),
+			})
+			.strict(),
+	]),
+);
+
+// Limits are checked before the recursive parse, so deep input can't exhaust the stack
 export const searchFiltersSchema = z
-	.object({
-		tags: z.array(z.string()).optional(), // Filter by specific tags
-		importance_min: z.number().int().min(1).max(10).optional(),
-		importance_max: z.number().int().min(1).max(10).optional(),
-		date_from: z.string().datetime().optional(), // Search from date
-		date_to: z.string().datetime().optional(), // Search to date
-		context: z.string().optional(), // Filter by context
-		client: z.string().optional(), // Filer by client name (cursor, claude, copilot etc...)
+	.unknown()
+	.superRefine((filters, ctx) => {
+		if (exceedsFilterLimits(filters)) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: `Filters may nest at most ${MAX_FILTER_DEPTH} levels deep and hold at most ${MAX_FILTER_NODES} operators`,
+				fatal: true,
+			});
+		}
 	})
-	.describe("Filters for memory search queries");
+	.pipe(filterExpressionSchema)
+	.describe("Boolean filter expression for memory search queries");
 
 export type UUID = z.infer<typeof uuidSchema>;
 export type Email = z.infer<typeof emailSchema>;
 export type ArweaveTransactionId = z.infer<typeof arweaveTransactionIdSchema>;
 export type ApiKey = z.infer<typeof apiKeySchema>;
 export type MemoryMetadata = z.infer<typeof memoryMetadataSchema>;
-export type SearchFilters = z.infer<typeof searchFiltersSchema>;
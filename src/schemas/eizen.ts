@@ -60,7 +60,23 @@ export const searchVectorSchema = z
 	})
 	.describe("Schema for Eizen.knn_search(query, k) method");
 
+/** Recall benchmark request - how many true nearest neighbours HNSW finds
+Samples stored vectors of the admin contract as queries and compares HNSW
+results with exact search:
+{
+  "queries": 100,
+  "k": 10
+}
+*/
+export const recallBenchmarkSchema = z
+	.object({
+		queries: z.number().int().min(1).max(100).default(50), // Stored vectors sampled as queries; each costs a full scan
+		k: z.number().int().min(1).max(50).default(10),
+	})
+	.describe("Schema for measuring HNSW recall@k against exact search");
+
 export type VectorEmbedding = z.infer<typeof vectorEmbeddingSchema>;
 export type VectorMetadata = z.infer<typeof vectorMetadataSchema>;
 export type InsertVector = z.infer<typeof insertVectorSchema>;
 export type SearchVector = z.infer<typeof searchVectorSchema>;
+export type RecallBenchmark = z.infer<typeof recallBenchmarkSchema>;
@@ -1,5 +1,9 @@
 import { z } from "zod";
-import { memoryMetadataSchema, searchFiltersSchema } from "./common.js";
+import {
+	memoryMetadataSchema,
+	searchFiltersSchema,
+	withoutSystemKeys,
+} from "./common.js";
 
 // This schemas are what ArchiveNET api expects
 
@@ -16,19 +20,104 @@ Content-Type: application/json
     "tags": ["preference", "color", "personal"],
     "timestamp": "2025-06-06T14:30:00Z",
     "client": "cursor"
-  }
+  },
+  "dedupe": "merge"
 }
 */
 
+// What to do when the new content is a near-duplicate of an existing memory:
+// "reject" it, "merge" its metadata into the existing memory, or "insert" it anyway
+export const dedupePolicySchema = z.enum(["reject", "merge", "insert"]);
+
+// Collection names are used in URLs, so keep them to a slug-like alphabet
+export const collectionNameSchema = z
+	.string()
+	.min(1)
+	.max(64)
+	.regex(
+		/^[a-zA-Z0-9][a-zA-Z0-9_-]*$/,
+		"Use letters, digits, '-' and '_', starting with a letter or digit",
+	);
+
 export const createMemorySchema = z
 	.object({
 		content: z.string().min(1).max(10000), // Text content to convert to embeddings
-		metadata: memoryMetadataSchema.optional(), // Rich metadata from MCP server
+		metadata: memoryMetadataSchema
+			.refine(withoutSystemKeys.check, withoutSystemKeys.message)
+			.optional(), // Rich metadata from MCP server, including custom keys
+		dedupe: dedupePolicySchema.optional(), // Near-duplicate policy, defaults to MEMORY_DEDUPE_POLICY
+		collection: collectionNameSchema.optional(), // Existing collection to store the memory in
 	})
 	.describe(
 		"API request to create new memory - content will be converted to embeddings and stored via Eizen",
 	);
 
+/** Batch memory creation request - for bulk ingestion (e.g. nightly sync jobs)
+POST https://api.archivenet.com/memories/batch
+
+{
+  "memories": [
+    { "content": "User's favorite color is blue", "metadata": { "tags": ["preference"] } },
+    { "content": "User works remotely on Fridays" }
+  ]
+}
+*/
+export const batchCreateMemorySchema = z
+	.object({
+		memories: z.array(createMemorySchema).min(1).max(500), // Each item is validated like POST /memories
+	})
+	.describe(
+		"API request to create many memories at once - contents are embedded in chunked batches",
+	);
+
+/** Memory update requests - every update stores a new version that supersedes the old one
+PUT https://api.archivenet.com/memories/42   (full replacement, same body as create)
+PATCH https://api.archivenet.com/memories/42 (partial, metadata is merged into the previous version)
+
+{
+  "metadata": {
+    "importance": 9,
+    "tags": ["preference", "color"]
+  }
+}
+*/
+export const updateMemorySchema = createMemorySchema
+	.omit({ dedupe: true, collection: true })
+	.describe(
+		"API request to replace a memory - stored as a new version superseding the old one",
+	);
+
+export const patchMemorySchema = z
+	.object({
+		content: z.string().min(1).max(10000).optional(),
+		metadata: memoryMetadataSchema
+			.partial()
+			.refine(withoutSystemKeys.check, withoutSystemKeys.message)
+			.optional(),
+	})
+	.refine((data) => data.content !== undefined || data.metadata !== undefined, {
+		message: "Provide content and/or metadata to update",
+	})
+	.describe(
+		"API request to partially update a memory - missing fields are carried over from the previous version",
+	);
+
+// Weighted ranking - blends similarity with recency (exponential decay) and importance
+// Weights are relative; each result reports the contribution of every component
+export const rankingSchema = z.object({
+	similarity: z.number().min(0).max(100).optional(), // Weight of the query similarity score
+	recency: z.number().min(0).max(100).optional(), // Weight of 0.5^(age / half-life)
+	importance: z.number().min(0).max(100).optional(), // Weight of the 1-10 importance, scaled to [0, 1]
+	half_life_hours: z.number().positive().optional(), // Age at which recency has decayed to 0.5
+});
+
+// Per-tenant ranking defaults; `enabled` applies weighted ranking to every search
+export const rankingDefaultsSchema = rankingSchema
+	.extend({
+		enabled: z.boolean().optional().default(false),
+	})
+	.describe("Tenant-wide defaults for weighted search ranking");
+
 /** Memory search request - for semantic search through user's memories
 GET https://api.archivenet.com/memories/search
 Authorization: Bearer ak_1234567890abcdef (API key)
@@ -38,8 +127,10 @@ Content-Type: application/json
   "query": "favorite color preference",
   "k"(limit): 5,
   "filters": {
-    "tags": ["preference", "color"],
-    "importance_min": 5
+    "and": [
+      { "tags": { "any": ["preference", "color"] } },
+      { "range": { "field": "importance", "gte": 5 } }
+    ]
   }
 }
 */
@@ -48,10 +139,167 @@ export const searchMemorySchema = z
 		query: z.string().min(1).max(1000), // General text
 		k: z.number().int().min(1).max(100).default(10), // number of results Agent will received
 		filters: searchFiltersSchema.optional(), // Optional search filters
+		include_history: z.boolean().optional().default(false), // Also return superseded versions
+		mode: z.enum(["vector", "keyword", "hybrid"]).optional().default("vector"), // Embedding, BM25 or both fused with RRF
+		diversity: z.number().min(0).max(1).optional(), // MMR lambda: 1 = pure relevance, 0 = maximum diversity
+		min_score: z.number().min(0).max(1).optional(), // Only return memories with a similarity score at or above this
+		exact: z.boolean().optional().default(false), // Compare with every stored vector instead of the HNSW index
+		collection: collectionNameSchema.optional(), // Only search memories in this collection
+		ranking: rankingSchema.optional(), // Weighted ranking; missing fields fall back to the tenant's defaults
+		facets: z.array(z.enum(["tags", "client", "importance"])).optional(), // Count returned memories per value
 	})
 	.describe(
 		"Semantic search request - query gets converted to embeddings for Eizen.knn_search()",
 	);
 
+/** Related memories request - kNN from a stored memory's vector, no query text
+GET https://api.archivenet.com/memories/42/similar?k=5
+Authorization: Bearer ak_1234567890abcdef (API key)
+*/
+export const similarMemorySchema = searchMemorySchema
+	.pick({
+		k: true,
+		filters: true,
+		include_history: true,
+		min_score: true,
+		exact: true,
+		collection: true,
+	})
+	.describe(
+		"Related memories request - nearest neighbours of an existing memory",
+	);
+
+/** Context pack request - relevant memories formatted to fit an LLM prompt budget
+POST https://api.archivenet.com/memories/context
+Authorization: Bearer ak_1234567890abcdef (API key)
+
+{
+  "query": "how does the user like to be contacted?",
+  "max_tokens": 500
+}
+*/
+export const contextPackSchema = searchMemorySchema
+	.pick({
+		query: true,
+		filters: true,
+		mode: true,
+		diversity: true,
+		min_score: true,
+		exact: true,
+		collection: true,
+		ranking: true,
+	})
+	.extend({
+		max_tokens: z.number().int().min(16).max(32000), // Token budget of the whole block
+		k: z.number().int().min(1).max(100).default(20), // Candidate memories considered before fitting the budget
+	})
+	.describe(
+		"Context pack request - search results deduplicated and packed into a token budget",
+	);
+
+/** Memory listing request - browse memories page by page, without a query
+GET https://api.archivenet.com/memories/list?limit=20&sort=importance&order=desc
+Authorization: Bearer ak_1234567890abcdef (API key)
+
+Pass the previous page's `nextCursor` as `cursor` to fetch the next page.
+`filters` takes the same expression as search (JSON-encoded in the query string).
+*/
+export const listMemoriesSchema = z
+	.object({
+		limit: z.number().int().min(1).max(100).default(20), // Page size
+		cursor: z.string().min(1).optional(), // Opaque cursor returned as nextCursor
+		sort: z.enum(["createdAt", "importance"]).optional().default("createdAt"),
+		order: z.enum(["asc", "desc"]).optional().default("desc"),
+		filters: searchFiltersSchema.optional(), // Same filter expression as search
+		include_history: z.boolean().optional().default(false), // Also list superseded versions
+		collection: collectionNameSchema.optional(), // Only list memories in this collection
+	})
+	.describe(
+		"Memory listing request - cursor-paginated browse of stored memories",
+	);
+
+/** Memory export request - streams every matching memory as NDJSON
+GET https://api.archivenet.com/memories/export?include_vectors=true
+Authorization: Bearer ak_1234567890abcdef (API key)
+
+Takes the same filters as listing. Each line is one memory:
+{"id":42,"content":"User's favorite color is blue","metadata":{"tags":["color"]},"createdAt":"2025-06-06T14:30:00.000Z"}
+*/
+export const exportMemoriesSchema = listMemoriesSchema
+	.pick({ filters: true, include_history: true, collection: true })
+	.extend({
+		include_vectors: z.boolean().optional().default(false), // Also export the raw embedding and its model
+	})
+	.describe("Memory export request - NDJSON stream of stored memories");
+
+/** Memory import line - one line of an NDJSON upload, in the same shape as an export
+POST https://api.archivenet.com/memories/import
+Authorization: Bearer ak_1234567890abcdef (API key)
+Content-Type: application/x-ndjson
+
+{"content":"User's favorite color is blue","metadata":{"tags":["color"]},"vector":[0.01,...],"model":"Xenova/all-MiniLM-L6-v2"}
+{"content":"User works remotely on Fridays"}
+*/
+export const importMemorySchema = createMemorySchema
+	.extend({
+		vector: z.array(z.number()).optional(), // Reused when it matches the current embedding model
+		model: z.string().optional(), // Model that produced `vector`
+	})
+	.describe(
+		"One memory of an NDJSON import - validated like POST /memories, optionally carrying an exported vector",
+	);
+
+/** Tag rename/merge request - rewrites tags on every memory of the tenant
+POST https://api.archivenet.com/memories/tags/rename
+
+{
+  "from": ["prefs", "preferences"],
+  "to": "preference"
+}
+*/
+export const renameTagsSchema = z
+	.object({
+		from: z.array(z.string().min(1)).min(1).max(50), // Tags to replace
+		to: z.string().min(1), // Replacement tag; merging happens when it already exists on a memory
+		collection: collectionNameSchema.optional(), // Only rewrite memories in this collection
+	})
+	.describe(
+		"API request to rename or merge tags - each affected memory gets a new version",
+	);
+
+/** Collection management requests
+POST https://api.archivenet.com/memories/collections
+{ "name": "project-x", "description": "Notes about project X" }
+
+PATCH https://api.archivenet.com/memories/collections/project-x
+{ "description": "Archived notes about project X" }
+*/
+export const createCollectionSchema = z
+	.object({
+		name: collectionNameSchema,
+		description: z.string().max(500).optional(),
+	})
+	.describe("API request to create a named memory collection");
+
+export const updateCollectionSchema = z
+	.object({
+		description: z.string().max(500).nullable(), // null clears the description
+	})
+	.describe("API request to update a memory collection");
+
+export type DedupePolicy = z.infer<typeof dedupePolicySchema>;
 export type CreateMemory = z.infer<typeof createMemorySchema>;
+export type BatchCreateMemory = z.infer<typeof batchCreateMemorySchema>;
+export type UpdateMemory = z.infer<typeof updateMemorySchema>;
+export type PatchMemory = z.infer<typeof patchMemorySchema>;
 export type SearchMemory = z.infer<typeof searchMemorySchema>;
+export type SimilarMemory = z.infer<typeof similarMemorySchema>;
+export type ContextPack = z.infer<typeof contextPackSchema>;
+export type ListMemories = z.infer<typeof listMemoriesSchema>;
+export type ExportMemories = z.infer<typeof exportMemoriesSchema>;
+export type ImportMemory = z.infer<typeof importMemorySchema>;
+export type Ranking = z.infer<typeof rankingSchema>;
+export type RankingDefaults = z.infer<typeof rankingDefaultsSchema>;
+export type RenameTags = z.infer<typeof renameTagsSchema>;
+export type CreateCollection = z.infer<typeof createCollectionSchema>;
+export type UpdateCollection = z.infer<typeof updateCollectionSchema>;
@@ -18,6 +18,7 @@ import helmet from "helmet";
 import { errorHandler } from "./middlewares/errorHandler.js";
 import { EizenService } from "./services/EizenService.js";
 import { embeddingService } from "./services/EmbeddingService.js";
+import { getDefaultVectorStoreKind } from "./services/VectorStore.js";
 
 dotenv.config();
 
@@ -33,8 +34,12 @@ async function initializeServices() {
 	// Initialize vector embedding service first (required by other services)
 	await embeddingService.ensureInitialized();
 
-	// Initialize semantic search configuration
-	await EizenService.initEizenConfig();
+	// Initialize semantic search configuration (memory and local stores need no network)
+	if (getDefaultVectorStoreKind() === "eizen") {
+		await EizenService.initEizenConfig();
+	} else {
+		console.log(`Vector store: ${getDefaultVectorStoreKind()}`);
+	}
 
 	console.log("ArchiveNET is ready to handle user requests");
 }
@@ -53,6 +58,8 @@ initializeServices()
 		const { userSubscriptionsRouter } = await import(
 			"./routes/userSubscriptions.js"
 		);
+		const { expirySweeper } = await import("./services/ExpirySweeper.js");
+		const { memoryWriteQueue } = await import("./services/MemoryWriteQueue.js");
 
 		const app = express();
 		const PORT = Number.parseInt(process.env.PORT || "3000", 10);
@@ -78,7 +85,15 @@ initializeServices()
 		};
 
 		// Core middleware stack
-		app.use(express.json());
+		// Batch creates are parsed by their route with a larger limit, once the caller is authenticated
+		const jsonParser = express.json();
+		app.use((req, res, next) => {
+			if (req.method === "POST" && /^\/memories\/batch\/?$/i.test(req.path)) {
+				next();
+				return;
+			}
+			jsonParser(req, res, next);
+		});
 		app.use(express.urlencoded({ extended: true }));
 		app.use(cors(corsOptions));
 		app.use(helmet());
@@ -115,6 +130,12 @@ initializeServices()
 			.listen(PORT, () => {
 				console.log(`ArchiveNET API server running on port ${PORT}`);
 				console.log(`Health endpoint: http://localhost:${PORT}/health`);
+
+				// Permanently delete memories whose TTL has passed
+				expirySweeper.start();
+
+				// Store memories queued with POST /memories?async=true
+				memoryWriteQueue.start();
 			})
 			.on("error", (error) => {
 				console.error("❌ Failed to start server:", error.message);
@@ -1,24 +1,33 @@
+import { randomUUID } from "node:crypto";
 import { EizenDbVector } from "eizen";
 import { SetSDK } from "hollowdb";
 import { type ArweaveConfig, initializeArweave } from "../config/arweave.js";
+import {
+	acquireVectorInsertLock,
+	releaseVectorInsertLock,
+	renewVectorInsertLock,
+} from "../database/models/VectorInsertLock.js";
 import type {
 	InsertVector,
 	SearchVector,
-	VectorEmbedding,
 	VectorMetadata,
 } from "../schemas/eizen.js";
+import { getHnswParams } from "./HnswIndex.js";
+import {
+	type ServiceLease,
+	ServiceRegistry,
+	type ServiceRegistryStats,
+} from "./ServiceRegistry.js";
+import type {
+	StoredVector,
+	VectorInsertResult,
+	VectorSearchResult,
+	VectorStore,
+	VectorStoreStats,
+} from "./VectorStore.js";
 
-export interface EizenSearchResult {
-	id: number;
-	distance: number; // Distance/similarity score (lower value == higher similarity)
-	metadata?: VectorMetadata;
-}
-
-export interface EizenInsertResult {
-	success: boolean;
-	vectorId: number;
-	message: string;
-}
+// How often an insert waiting on another instance retries the lease
+const INSERT_LOCK_POLL_MS = 200;
 
 /**
  * Service class for managing Eizen vector database operations with multi-tenant support
@@ -31,13 +40,15 @@ export interface EizenInsertResult {
  *
  * The service uses Arweave for decentralized storage and HollowDB as the underlying data layer.
  * Each user gets their own contract instance for isolated vector storage.
+ * This is the production `VectorStore` backend; see `acquireVectorStore` for the others.
  *
  * @see https://github.com/Itz-Agasta/Eizendb/blob/main/docs/DEVELOPER_GUIDE.md --> Official Eizen Docs
  *
  * @example
  * ```typescript
- * // Create a user-specific instance
- * const userEizenService = await EizenService.forContract(userContractId);
+ * // Lease a user-specific instance
+ * const { service: userEizenService, release } =
+ *   await EizenService.forContract(userContractId);
  *
  * // Insert a vector
  * const result = await userEizenService.insertVector({
@@ -55,7 +66,7 @@ export interface EizenInsertResult {
  * });
  * ```
  */
-export class EizenService {
+export class EizenService implements VectorStore {
 	private vectorDb: EizenDbVector<VectorMetadata> | null = null; // The Eizen vector database instance with generic metadata type
 	private sdk: SetSDK<string> | null = null; // HollowDB SDK instance for Arweave interactions
 	private contractId: string; // The contract ID for this specific instance
@@ -65,6 +76,26 @@ export class EizenService {
 	private static sharedArweaveConfig: ArweaveConfig | null = null;
 	private static arweaveInitPromise: Promise<ArweaveConfig> | null = null;
 
+	// Tail of the insert queue of each contract, shared by all instances
+	private static insertQueues = new Map<string, Promise<unknown>>();
+
+	// Lease other API instances wait on while this one inserts (see EIZEN_INSERT_LOCK_TTL_MS)
+	private static insertLockTtlMs =
+		Number(process.env.EIZEN_INSERT_LOCK_TTL_MS) || 60 * 1000;
+
+	// Initialized instances reused across requests, one per contract
+	private static instances = new ServiceRegistry<EizenService>({
+		name: "EizenService",
+		maxSize: Number(process.env.EIZEN_SERVICE_CACHE_SIZE) || 100,
+		idleMs: Number(process.env.EIZEN_SERVICE_IDLE_MS ?? 15 * 60 * 1000) || 0,
+		create: async (contractId) => {
+			const service = new EizenService(contractId);
+			await service.initialize();
+			return service;
+		},
+		dispose: (service) => service.cleanup(),
+	});
+
 	/**
 	 * Creates a new EizenService instance for a specific contract
 	 *
@@ -77,30 +108,61 @@ export class EizenService {
 	}
 
 	/**
-	 * Create a new EizenService instance for a specific user contract
+	 * Get the EizenService instance for a specific user contract
 	 *
-	 * This factory method creates and initializes a service instance for a specific
+	 * This factory method returns an initialized service instance for a specific
 	 * contract ID. Each user should have their own contract for data isolation.
 	 *
+	 * Instances are cached (see EIZEN_SERVICE_CACHE_SIZE and
+	 * EIZEN_SERVICE_IDLE_MS), so only the first request for a contract pays
+	 * for building the HollowDB SDK and Eizen instance; concurrent first
+	 * requests share that initialization. An evicted instance is only cleaned
+	 * up once every lease on it has been released.
+	 *
 	 * @param contractId - The Arweave contract ID for the user's vector database
-	 * @returns Promise resolving to an initialized EizenService instance
+	 * @returns Promise resolving to an initialized EizenService instance and its release callback
 	 *
 	 * @example
 	 * ```typescript
-	 * // Create service for a user's contract
-	 * const userService = await EizenService.forContract("user123_contract_id");
+	 * // Lease the service for a user's contract
+	 * const { service: userService, release } =
+	 *   await EizenService.forContract("user123_contract_id");
 	 *
 	 * // Insert vectors using user's isolated database
-	 * await userService.insertVector({
-	 *   vector: [0.1, 0.2, 0.3],
-	 *   metadata: { content: "user data" }
-	 * });
+	 * try {
+	 *   await userService.insertVector({
+	 *     vector: [0.1, 0.2, 0.3],
+	 *     metadata: { content: "user data" }
+	 *   });
+	 * } finally {
+	 *   release();
+	 * }
 	 * ```
 	 */
-	static async forContract(contractId: string): Promise<EizenService> {
-		const service = new EizenService(contractId);
-		await service.initialize();
-		return service;
+	static async forContract(
+		contractId: string,
+	): Promise<ServiceLease<EizenService>> {
+		return EizenService.instances.acquire(contractId);
+	}
+
+	/**
+	 * Drop the cached instance of a contract
+	 *
+	 * Users still holding a lease keep it until they release it.
+	 *
+	 * @param contractId - The Arweave contract ID to forget
+	 */
+	static invalidate(contractId: string): void {
+		EizenService.instances.invalidate(contractId);
+	}
+
+	/**
+	 * Get hit/miss statistics of the instance cache
+	 *
+	 * @returns Cache size, limits, hits, misses and evictions
+	 */
+	static getCacheStats(): ServiceRegistryStats {
+		return EizenService.instances.getStats();
 	}
 
 	/**
@@ -170,11 +232,7 @@ export class EizenService {
 	 * @returns HNSW configuration object
 	 */
 	private static getHnswParams() {
-		return {
-			m: Number(process.env.EIZEN_M) || 16, // Maximum number of bi-directional links for each element
-			efConstruction: Number(process.env.EIZEN_EF_CONSTRUCTION) || 200, // Dynamic candidate list size during index construction (higher == better quality == slower build)
-			efSearch: Number(process.env.EIZEN_EF_SEARCH) || 50, // Dynamic candidate list size during search (higher == better accuracy == slower search)
-		};
+		return getHnswParams(); // Shared with the in-process vector stores
 	}
 	/**
 	 * Initialize the service instance for a specific contract
@@ -259,6 +317,10 @@ export class EizenService {
 	 * @param data.metadata - Associated metadata (document ID, type, etc.)
 	 * @returns Promise resolving to insertion result with assigned vector ID
 	 *
+	 * Eizen assigns IDs sequentially (the ID of a new vector is the number of
+	 * vectors stored before it), so inserts into the same contract are queued
+	 * one after the other within this process to keep the reported ID exact.
+	 *
 	 * @example
 	 * ```typescript
 	 * const result = await eizenService.insertVector({
@@ -280,34 +342,37 @@ export class EizenService {
 	 *
 	 * @throws {Error} When the service is not initialized or insertion fails
 	 */
-	async insertVector(data: InsertVector): Promise<EizenInsertResult> {
+	async insertVector(data: InsertVector): Promise<VectorInsertResult> {
 		await this.ensureInitialized();
 
 		if (!this.vectorDb) {
 			throw new Error("Vector database not initialized");
 		}
 
+		const vectorDb = this.vectorDb;
+
 		try {
 			console.log(`Inserting vector with ${data.vector.length} dimensions`);
 
-			// Get current vector count to estimate the next ID
-			// TODO: implement getVectorCount() with neonDB later
-			const currentVectorCount = await this.getVectorCount();
+			const vectorId = await this.withInsertLock(async (confirmLease) => {
+				// The next ID is the current vector count
+				const nextId = await this.getVectorCount();
 
-			// Insert vector into the HNSW index with associated metadata
-			await this.vectorDb.insert(data.vector, data.metadata);
+				// Another instance may read the same count once the lease lapsed
+				await confirmLease();
 
-			// Estimate the vector ID
-			const vectorId = currentVectorCount; //NOTE: getVectorCount() is not implemented yet. so VectorID is 0 for every insert.
+				// Insert vector into the HNSW index with associated metadata
+				await vectorDb.insert(data.vector, data.metadata);
 
-			console.log(
-				`Vector inserted successfully with estimated ID: ${vectorId}`,
-			);
+				return nextId;
+			});
+
+			console.log(`Vector inserted successfully with ID: ${vectorId}`);
 
 			return {
 				success: true,
-				vectorId, // For now it will always return 0
-				message: `Vector inserted successfully with estimated ID: ${vectorId}`,
+				vectorId,
+				message: `Vector inserted successfully with ID: ${vectorId}`,
 			};
 		} catch (error) {
 			console.error("Failed to insert vector:", error);
@@ -347,7 +412,7 @@ export class EizenService {
 	 *
 	 * @throws {Error} When the service is not initialized or search fails
 	 */
-	async searchVectors(data: SearchVector): Promise<EizenSearchResult[]> {
+	async searchVectors(data: SearchVector): Promise<VectorSearchResult[]> {
 		await this.ensureInitialized();
 
 		if (!this.vectorDb) {
@@ -399,9 +464,7 @@ export class EizenService {
 	 *
 	 * @throws {Error} When the service is not initialized or retrieval fails
 	 */
-	async getVector(
-		vectorId: number,
-	): Promise<{ point: VectorEmbedding; metadata?: VectorMetadata } | null> {
+	async getVector(vectorId: number): Promise<StoredVector | null> {
 		await this.ensureInitialized();
 
 		if (!this.vectorDb) {
@@ -432,6 +495,39 @@ export class EizenService {
 		}
 	}
 
+	/**
+	 * Iterate over every vector stored in the contract, in insertion order
+	 *
+	 * Vectors are fetched one at a time so callers can process large contracts
+	 * without holding the whole dataset in memory. The scan covers the IDs
+	 * below the vector count taken when it starts, so vectors inserted during
+	 * the scan are not visited.
+	 *
+	 * @param startId - Vector ID to start scanning from (default: 0)
+	 * @yields Each stored vector with its ID, point and metadata
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const vector of eizenService.scanVectors()) {
+	 *   console.log(vector.id, vector.metadata);
+	 * }
+	 * ```
+	 *
+	 * @throws {Error} When the service is not initialized or retrieval fails
+	 */
+	async *scanVectors(
+		startId = 0,
+	): AsyncGenerator<{ id: number } & StoredVector> {
+		const count = await this.getVectorCount();
+
+		for (let id = startId; id < count; id++) {
+			const vector = await this.getVector(id);
+			if (vector?.point) {
+				yield { id, ...vector };
+			}
+		}
+	}
+
 	// ============================================================================
 	// Support Functions
 	// These functions are not part of the core Eizen logic,
@@ -445,14 +541,8 @@ export class EizenService {
 	 * including the total number of stored vectors and initialization status.
 	 *
 	 * @returns Promise resolving to database statistics
-	 *
-	 * @todo Implement vector count tracking via service NEON db
 	 */
-	async getStats(): Promise<{
-		totalVectors: number;
-		isInitialized: boolean;
-		contractId: string;
-	}> {
+	async getStats(): Promise<VectorStoreStats> {
 		try {
 			return {
 				totalVectors: this.vectorDb ? await this.getVectorCount() : 0,
@@ -469,16 +559,136 @@ export class EizenService {
 	}
 
 	/**
-	 * Get the total number of vectors in the database via our service NEON db
+	 * Get the total number of vectors stored in the contract
 	 *
-	 * This is a helper method used internally for statistics and ID estimation.
+	 * Read from the contract state (the data size Eizen keeps alongside the
+	 * HNSW graph), so it includes every vector ever inserted.
 	 *
-	 * @private
 	 * @returns Promise resolving to the vector count
-	 * @todo Implement it via service NEON db
 	 */
-	private async getVectorCount(): Promise<number> {
-		return 0; // Placeholder value for now
+	async getVectorCount(): Promise<number> {
+		await this.ensureInitialized();
+
+		if (!this.vectorDb) {
+			throw new Error("Vector database not initialized");
+		}
+
+		return this.vectorDb.db.get_datasize();
+	}
+
+	/**
+	 * Delete a vector (not supported)
+	 *
+	 * Eizen contracts are append-only: a stored vector can't be removed from
+	 * the HNSW graph. MemoryService hides deleted memories with tombstones and
+	 * `purgeDeletedMemories` drops them for good by copying to a new contract.
+	 *
+	 * @throws {Error} Always
+	 */
+	async deleteVector(vectorId: number): Promise<boolean> {
+		throw new Error(
+			`Cannot delete vector ${vectorId}: Eizen contracts are append-only`,
+		);
+	}
+
+	/**
+	 * Run a task once every earlier insert into this contract has settled
+	 *
+	 * Inserts from this process queue up in memory; the queue head then takes
+	 * the contract's lease in Postgres so inserts from other API instances
+	 * wait too. Vector IDs are read from the data size before inserting, so
+	 * two concurrent writers would otherwise be handed the same ID.
+	 *
+	 * @private
+	 * @param task - Insert to run exclusively
+	 * @returns Promise resolving to the task's result
+	 */
+	private async withInsertLock<T>(
+		task: (confirmLease: () => Promise<void>) => Promise<T>,
+	): Promise<T> {
+		const previous =
+			EizenService.insertQueues.get(this.contractId) ?? Promise.resolve();
+		const current = previous
+			.catch(() => undefined)
+			.then(() => this.withContractLease(task));
+		EizenService.insertQueues.set(this.contractId, current);
+
+		try {
+			return await current;
+		} finally {
+			// Drop the queue once it's idle so it doesn't grow per contract forever
+			if (EizenService.insertQueues.get(this.contractId) === current) {
+				EizenService.insertQueues.delete(this.contractId);
+			}
+		}
+	}
+
+	/**
+	 * Run a task while holding the contract's insert lease in Postgres
+	 *
+	 * Polls until the lease is free. A lease left behind by a crashed instance
+	 * expires after EIZEN_INSERT_LOCK_TTL_MS, so waiting gives up after twice
+	 * that. The lease is renewed while the task runs; the task calls
+	 * `confirmLease` right before committing, which throws if the lease was
+	 * lost in the meantime.
+	 *
+	 * @private
+	 * @param task - Insert to run exclusively
+	 * @returns Promise resolving to the task's result
+	 * @throws {Error} When the lease can't be taken in time
+	 */
+	private async withContractLease<T>(
+		task: (confirmLease: () => Promise<void>) => Promise<T>,
+	): Promise<T> {
+		const holder = randomUUID();
+		const ttlMs = EizenService.insertLockTtlMs;
+		const deadline = Date.now() + 2 * ttlMs;
+
+		while (!(await acquireVectorInsertLock(this.contractId, holder, ttlMs))) {
+			if (Date.now() >= deadline) {
+				throw new Error(
+					`Timed out waiting for the insert lock of contract ${this.contractId}`,
+				);
+			}
+			await new Promise((resolve) => setTimeout(resolve, INSERT_LOCK_POLL_MS));
+		}
+
+		let lost = false;
+		const renew = async () => {
+			lost ||= !(await renewVectorInsertLock(this.contractId, holder, ttlMs));
+		};
+		const renewal = setInterval(() => {
+			renew().catch((error) =>
+				console.warn(
+					`Failed to renew the insert lock of contract ${this.contractId}:`,
+					error,
+				),
+			);
+		}, ttlMs / 3);
+		renewal.unref();
+
+		const confirmLease = async () => {
+			if (!lost) {
+				await renew();
+			}
+			if (lost) {
+				throw new Error(
+					`Lost the insert lock of contract ${this.contractId}, nothing was written`,
+				);
+			}
+		};
+
+		try {
+			return await task(confirmLease);
+		} finally {
+			clearInterval(renewal);
+			await releaseVectorInsertLock(this.contractId, holder).catch((error) =>
+				console.warn(
+					`Failed to release the insert lock of contract ${this.contractId}:`,
+					error,
+				),
+			);
+		}
 	}
 
 	/**
@@ -488,11 +698,13 @@ export class EizenService {
 	 * to properly close database connections and free resources.
 	 *
 	 * Note: This only cleans up this specific instance. The shared Arweave
-	 * configuration remains for other instances.
+	 * configuration remains for other instances. Instances obtained from
+	 * `forContract` are cached and cleaned up once evicted and released, so
+	 * callers should release their lease instead of cleaning them up.
 	 *
 	 * @example
 	 * ```typescript
-	 * // During application shutdown or when done with this user's service
+	 * // During application shutdown
 	 * await userEizenService.cleanup();
 	 * ```
 	 */
@@ -528,6 +740,9 @@ export class EizenService {
 	 */
 	static async globalCleanup(): Promise<void> {
 		try {
+			// Release every cached instance
+			await EizenService.instances.clear();
+
 			// Close Redis connection if it exists
 			if (EizenService.sharedArweaveConfig?.redis) {
 				await EizenService.sharedArweaveConfig.redis.quit();
@@ -567,5 +782,5 @@ export class EizenService {
 	}
 }
 
-// To create instances: await EizenService.forContract(contractId)
+// To lease instances: await EizenService.forContract(contractId)
 // To deploy new contract: await EizenService.deployNewContract()
@@ -1,13 +1,22 @@
 import { pipeline } from "@xenova/transformers";
 import type { VectorEmbedding } from "../schemas/eizen.js";
+import { splitIntoPassages } from "../utils/text.js";
 
-type EmbeddingPipeline = (
+type EmbeddingPipeline = ((
 	texts: string[],
 	options?: { pooling?: string; normalize?: boolean },
 ) => Promise<{
 	data: Float32Array | number[];
 	dims: number[];
-}>;
+}>) & {
+	tokenizer: {
+		encode(
+			text: string,
+			textPair?: string | null,
+			options?: { add_special_tokens?: boolean },
+		): number[];
+	};
+};
 
 export interface EmbeddingResult {
 	embeddings: VectorEmbedding;
@@ -36,6 +45,7 @@ export class EmbeddingService {
 	 *  @see https://huggingface.co/Xenova/all-MiniLM-L6-v2
 	 */
 	private readonly modelName = "Xenova/all-MiniLM-L6-v2";
+	private readonly dimensions = 384;
 
 	/**
 	 * Loads the transformer model and prepares the feature-extraction pipeline.
@@ -278,14 +288,76 @@ export class EmbeddingService {
 		}
 	}
 
+	/**
+	 * Counts the tokens the model's tokenizer produces for a text.
+	 *
+	 * @param text - The input string to count
+	 * @returns Promise resolving to the token count, excluding special tokens
+	 * @throws {Error} If the service is not initialized
+	 */
+	async countTokens(text: string): Promise<number> {
+		await this.ensureInitialized();
+
+		if (!this.extractor) {
+			throw new Error("Extractor not initialized");
+		}
+
+		return this.extractor.tokenizer.encode(text, null, {
+			add_special_tokens: false,
+		}).length;
+	}
+
+	/**
+	 * Splits text into passages that each fit within a token budget.
+	 *
+	 * The model silently truncates input past its token limit, so long texts
+	 * are cut on word boundaries into passages of at most `maxTokens` tokens
+	 * (as counted by the model's own tokenizer). Consecutive passages share up
+	 * to `overlapTokens` tokens of trailing context so facts spanning a
+	 * boundary stay retrievable. Passages keep the original text verbatim.
+	 *
+	 * @param text - The input string to split
+	 * @param maxTokens - Maximum tokens per passage, excluding special tokens
+	 * @param overlapTokens - Tokens repeated from the end of the previous passage
+	 * @returns Promise resolving to the passages in order (a single passage if the text fits)
+	 * @throws {Error} If the service is not initialized
+	 *
+	 * @example
+	 * ```typescript
+	 * const passages = await embeddingService.chunkText(longText, 200, 40);
+	 * const results = await embeddingService.batchTextToEmbeddings(passages);
+	 * ```
+	 */
+	async chunkText(
+		text: string,
+		maxTokens: number,
+		overlapTokens: number,
+	): Promise<string[]> {
+		await this.ensureInitialized();
+
+		if (!this.extractor) {
+			throw new Error("Extractor not initialized");
+		}
+
+		const { tokenizer } = this.extractor;
+		return splitIntoPassages(
+			text,
+			maxTokens,
+			overlapTokens,
+			(segment) =>
+				tokenizer.encode(segment, null, { add_special_tokens: false }).length,
+		);
+	}
+
 	/**
 	 * Returns metadata about the service's current state and configuration.
 	 *
-	 * @returns Object containing model name and initialization status
+	 * @returns Object containing model name, embedding size and initialization status
 	 */
-	getInfo(): { model: string; isInitialized: boolean } {
+	getInfo(): { model: string; dimensions: number; isInitialized: boolean } {
 		return {
 			model: this.modelName,
+			dimensions: this.dimensions,
 			isInitialized: this.isInitialized,
 		};
 	}
@@ -0,0 +1,107 @@
+import {
+	deleteMemoryExpiriesById,
+	listDueMemoryExpiries,
+} from "../database/models/MemoryExpiry.js";
+import { createMemoryTombstone } from "../database/models/MemoryTombstone.js";
+
+// How often due expiries are processed (0 disables the sweeper)
+const SWEEP_INTERVAL_MS =
+	Number(process.env.MEMORY_EXPIRY_SWEEP_INTERVAL_MS ?? 10 * 60 * 1000) || 0;
+
+// Most expiries read from the table at once
+const SWEEP_BATCH_SIZE = 500;
+
+/**
+ * Periodically tombstones expired memories across all tenants
+ *
+ * Expired memories are hidden at read time as soon as their `expires_at`
+ * passes; the sweeper makes that permanent. MemoryService records every
+ * memory with an `expires_at` in the memory_expiries table, so a sweep only
+ * touches the memories that are due, without reading any contract. Sweeps
+ * never overlap: a tick is skipped while the previous sweep is still running.
+ */
+export class ExpirySweeper {
+	private timer: NodeJS.Timeout | null = null;
+	private sweeping = false;
+
+	/**
+	 * Start sweeping every MEMORY_EXPIRY_SWEEP_INTERVAL_MS
+	 * Does nothing if the sweeper is disabled or already running
+	 */
+	start(): void {
+		if (this.timer || SWEEP_INTERVAL_MS <= 0) {
+			return;
+		}
+
+		console.log(
+			`Memory expiry sweeper running every ${SWEEP_INTERVAL_MS / 1000}s`,
+		);
+
+		this.timer = setInterval(() => {
+			void this.sweep();
+		}, SWEEP_INTERVAL_MS);
+		this.timer.unref(); // Don't keep the process alive just for sweeping
+	}
+
+	/**
+	 * Stop the periodic sweep
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Tombstone every memory whose expiry is due
+	 *
+	 * Due expiries are processed in batches of SWEEP_BATCH_SIZE and removed
+	 * once their memory is tombstoned. A failing batch is logged and left for
+	 * the next sweep.
+	 *
+	 * @returns Promise resolving to the number of memories tombstoned
+	 */
+	async sweep(): Promise<number> {
+		if (this.sweeping) {
+			return 0;
+		}
+		this.sweeping = true;
+
+		let expiredMemories = 0;
+		try {
+			const now = new Date();
+			for (;;) {
+				const due = await listDueMemoryExpiries(now, SWEEP_BATCH_SIZE);
+				for (const expiry of due) {
+					// Already deleted memories keep their tombstone and aren't counted
+					if (
+						await createMemoryTombstone(expiry.contractTxId, expiry.vectorId)
+					) {
+						expiredMemories++;
+					}
+				}
+				await deleteMemoryExpiriesById(due.map((expiry) => expiry.id));
+
+				if (due.length < SWEEP_BATCH_SIZE) {
+					break;
+				}
+			}
+
+			if (expiredMemories > 0) {
+				console.log(`Tombstoned ${expiredMemories} expired memories`);
+			}
+		} catch (error) {
+			console.error("Expiry sweep failed:", error);
+		} finally {
+			this.sweeping = false;
+		}
+
+		return expiredMemories;
+	}
+}
+
+/**
+ * Singleton expiry sweeper for application-wide use.
+ */
+export const expirySweeper = new ExpirySweeper();
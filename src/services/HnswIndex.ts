@@ -0,0 +1,260 @@
+import type { VectorEmbedding } from "../schemas/eizen.js";
+import { cosineSimilarity } from "../utils/vector.js";
+
+export interface HnswParams {
+	m: number; // Maximum number of bi-directional links per node and layer (2m on layer 0)
+	efConstruction: number; // Candidate list size while inserting
+	efSearch: number; // Candidate list size while searching
+}
+
+export interface HnswNeighbor {
+	id: number;
+	distance: number; // Cosine distance (lower value == higher similarity)
+}
+
+// Layer and links chosen for a node when it was inserted, enough to replay the insert
+export interface HnswInsertion {
+	level: number;
+	links: number[][]; // Neighbour IDs per layer, from layer 0 up to `level`
+}
+
+/**
+ * HNSW parameters shared by every vector store, from environment variables with defaults
+ */
+export function getHnswParams(): HnswParams {
+	return {
+		m: Number(process.env.EIZEN_M) || 16, // Maximum number of bi-directional links for each element
+		efConstruction: Number(process.env.EIZEN_EF_CONSTRUCTION) || 200, // Dynamic candidate list size during index construction (higher == better quality == slower build)
+		efSearch: Number(process.env.EIZEN_EF_SEARCH) || 50, // Dynamic candidate list size during search (higher == better accuracy == slower search)
+	};
+}
+
+/**
+ * In-process HNSW graph over cosine distance
+ *
+ * Implements the same algorithm as Eizen (insert with layer selection,
+ * greedy descent through the upper layers, beam search on layer 0) without
+ * any storage of its own: nodes are identified by their insertion order,
+ * starting at 0, exactly like Eizen vector IDs.
+ *
+ * Inserts are reproducible: `plan` chooses a new node's layer and links
+ * without touching the graph, and `restore` applies them. Replaying a
+ * persisted insertion log through `restore` rebuilds the identical graph
+ * without searching it again.
+ */
+export class HnswIndex {
+	private points: VectorEmbedding[] = [];
+	private links: number[][][] = []; // links[id][layer] = neighbour IDs
+	private entryPoint = -1;
+	private maxLevel = -1;
+	private readonly levelMultiplier: number;
+
+	constructor(private readonly params: HnswParams) {
+		this.levelMultiplier = 1 / Math.log(Math.max(params.m, 2));
+	}
+
+	// Number of nodes in the graph
+	get size(): number {
+		return this.points.length;
+	}
+
+	/**
+	 * Get the point stored for a node
+	 *
+	 * @param id - Node ID
+	 * @returns The point, or undefined if the node does not exist
+	 */
+	getPoint(id: number): VectorEmbedding | undefined {
+		return this.points[id];
+	}
+
+	/**
+	 * Insert a point into the graph
+	 *
+	 * @param point - Vector to insert
+	 * @returns The new node's ID and the insertion to persist for `restore`
+	 */
+	insert(point: VectorEmbedding): { id: number; insertion: HnswInsertion } {
+		const insertion = this.plan(point);
+		return { id: this.restore(point, insertion), insertion };
+	}
+
+	/**
+	 * Choose the layer and links of a point without inserting it
+	 *
+	 * The graph is left unchanged, so the insertion can be persisted before
+	 * it is applied with `restore`. It is only valid until the graph changes.
+	 *
+	 * @param point - Vector to insert
+	 * @returns The insertion to apply with `restore`
+	 */
+	plan(point: VectorEmbedding): HnswInsertion {
+		const level = Math.floor(
+			-Math.log(1 - Math.random()) * this.levelMultiplier,
+		);
+		const links: number[][] = Array.from({ length: level + 1 }, () => []);
+
+		if (this.entryPoint !== -1) {
+			let entry = [this.toNeighbor(point, this.entryPoint)];
+			for (let layer = this.maxLevel; layer > level; layer--) {
+				entry = this.searchLayer(point, entry, 1, layer);
+			}
+
+			for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+				const candidates = this.searchLayer(
+					point,
+					entry,
+					this.params.efConstruction,
+					layer,
+				);
+				links[layer] = candidates
+					.slice(0, this.params.m)
+					.map((candidate) => candidate.id);
+				entry = candidates;
+			}
+		}
+
+		return { level, links };
+	}
+
+	/**
+	 * Replay an insert from its persisted layer and links
+	 *
+	 * @param point - Vector that was inserted
+	 * @param insertion - Layer and links returned by `insert`
+	 * @returns The node's ID
+	 */
+	restore(point: VectorEmbedding, insertion: HnswInsertion): number {
+		const id = this.points.length;
+		this.points.push(point);
+		this.links.push(insertion.links.map((layerLinks) => [...layerLinks]));
+
+		insertion.links.forEach((layerLinks, layer) => {
+			for (const neighbor of layerLinks) {
+				const neighborLinks = this.links[neighbor][layer];
+				neighborLinks.push(id);
+				if (neighborLinks.length > this.maxLinks(layer)) {
+					this.links[neighbor][layer] = this.prune(
+						neighbor,
+						neighborLinks,
+						layer,
+					);
+				}
+			}
+		});
+
+		if (insertion.level > this.maxLevel) {
+			this.maxLevel = insertion.level;
+			this.entryPoint = id;
+		}
+
+		return id;
+	}
+
+	/**
+	 * Find the approximate nearest neighbours of a query
+	 *
+	 * @param query - Query vector
+	 * @param k - Number of neighbours to return
+	 * @param ef - Candidate list size (raised to k when smaller)
+	 * @param accept - Optional predicate; rejected nodes are traversed but not returned
+	 * @returns Neighbours ordered by ascending distance
+	 */
+	search(
+		query: VectorEmbedding,
+		k: number,
+		ef = this.params.efSearch,
+		accept?: (id: number) => boolean,
+	): HnswNeighbor[] {
+		if (this.entryPoint === -1) {
+			return [];
+		}
+
+		let entry = [this.toNeighbor(query, this.entryPoint)];
+		for (let layer = this.maxLevel; layer > 0; layer--) {
+			entry = this.searchLayer(query, entry, 1, layer);
+		}
+
+		return this.searchLayer(query, entry, Math.max(ef, k), 0)
+			.filter((neighbor) => !accept || accept(neighbor.id))
+			.slice(0, k);
+	}
+
+	private searchLayer(
+		query: VectorEmbedding,
+		entry: HnswNeighbor[],
+		ef: number,
+		layer: number,
+	): HnswNeighbor[] {
+		const visited = new Set(entry.map((neighbor) => neighbor.id));
+		const candidates = [...entry].sort(byDistance); // Closest first
+		const results = [...entry].sort(byDistance); // Best `ef` found so far
+
+		while (candidates.length > 0) {
+			const current = candidates.shift() as HnswNeighbor;
+			if (
+				results.length >= ef &&
+				current.distance > results[results.length - 1].distance
+			) {
+				break;
+			}
+
+			for (const id of this.links[current.id][layer] ?? []) {
+				if (visited.has(id)) {
+					continue;
+				}
+				visited.add(id);
+
+				const neighbor = this.toNeighbor(query, id);
+				if (
+					results.length < ef ||
+					neighbor.distance < results[results.length - 1].distance
+				) {
+					insertSorted(candidates, neighbor);
+					insertSorted(results, neighbor);
+					if (results.length > ef) {
+						results.pop();
+					}
+				}
+			}
+		}
+
+		return results;
+	}
+
+	// Keep the closest links of a node that exceeded its link budget
+	private prune(id: number, links: number[], layer: number): number[] {
+		const point = this.points[id];
+		return links
+			.map((neighbor) => this.toNeighbor(point, neighbor))
+			.sort(byDistance)
+			.slice(0, this.maxLinks(layer))
+			.map((neighbor) => neighbor.id);
+	}
+
+	private maxLinks(layer: number): number {
+		return layer === 0 ? this.params.m * 2 : this.params.m;
+	}
+
+	private toNeighbor(query: VectorEmbedding, id: number): HnswNeighbor {
+		return { id, distance: 1 - cosineSimilarity(query, this.points[id]) };
+	}
+}
+
+function byDistance(a: HnswNeighbor, b: HnswNeighbor): number {
+	return a.distance - b.distance || a.id - b.id;
+}
+
+function insertSorted(list: HnswNeighbor[], neighbor: HnswNeighbor): void {
+	let low = 0;
+	let high = list.length;
+	while (low < high) {
+		const middle = (low + high) >> 1;
+		if (byDistance(list[middle], neighbor) < 0) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+	list.splice(low, 0, neighbor);
+}
@@ -0,0 +1,227 @@
+import { ZodError } from "zod";
+import {
+	type MemoryImportJob,
+	type MemoryImportProgress,
+	createMemoryImportJob,
+	deleteMemoryImportJobs,
+	finishMemoryImportJob,
+	getMemoryImportJob,
+	updateMemoryImportJob,
+} from "../database/models/MemoryImportJob.js";
+import { importMemorySchema } from "../schemas/memory.js";
+import type { MemoryService } from "./MemoryService.js";
+
+export interface ImportLineError {
+	line: number; // 1-based line number in the upload
+	error: string;
+}
+
+export interface ImportJob {
+	id: string;
+	contractId: string;
+	status: "running" | "completed" | "failed";
+	totalLines: number; // Non-empty lines in the upload
+	processedLines: number;
+	imported: number; // Memories created or merged
+	rejected: number; // Lines rejected as near-duplicates
+	reembedded: number; // Imported memories whose vector was recomputed
+	skipped: number; // Superseded versions (`supersededBy` set) left out
+	failed: number;
+	errors: ImportLineError[]; // One entry per failed line
+	createdAt: string;
+	finishedAt?: string;
+	error?: string; // Set when the job as a whole failed
+}
+
+// Finished jobs are kept this long so clients can fetch the final report
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// How often a running job's progress is saved, which also marks it as still running
+const PROGRESS_SAVE_MS = 5 * 1000;
+
+// Running jobs not saved for this long belong to an instance that stopped and are reported as failed
+const INTERRUPTED_JOB_MS = 2 * 60 * 1000;
+
+/**
+ * Runs NDJSON imports in the background and tracks their progress
+ *
+ * Each import becomes a job that processes the upload line by line through
+ * `MemoryService.importMemory`. A bad line is recorded in the job's error
+ * report and does not stop the import. Older versions of a memory (exported
+ * with `include_history`) are skipped, so only the latest version is imported.
+ *
+ * Jobs are stored in Postgres, so any instance can report their progress, and
+ * are deleted JOB_RETENTION_MS after they finish. The upload itself is only
+ * held by the instance that accepted it; if that instance stops, the job is
+ * reported as failed and the remaining lines are not imported.
+ */
+export class ImportJobService {
+	/**
+	 * Start importing an NDJSON upload into a tenant's contract
+	 *
+	 * @param memoryService - Memory service bound to the target tenant
+	 * @param contractId - Tenant contract the job belongs to
+	 * @param ndjson - Upload body, one memory per line (export format)
+	 * @param onFinish - Called once the job has finished, e.g. to release the vector store
+	 * @returns Promise resolving to the job, already running; poll `getJob` for progress
+	 */
+	async startImport(
+		memoryService: MemoryService,
+		contractId: string,
+		ndjson: string,
+		onFinish?: () => void,
+	): Promise<ImportJob> {
+		try {
+			await deleteMemoryImportJobs(new Date(Date.now() - JOB_RETENTION_MS));
+
+			const lines = ndjson
+				.split(/\r?\n/)
+				.map((text, index) => ({ line: index + 1, text: text.trim() }))
+				.filter(({ text }) => text.length > 0);
+
+			const job = await createMemoryImportJob(contractId, lines.length);
+			console.log(`Import job ${job.id} started with ${lines.length} lines`);
+
+			this.runJob(job.id, memoryService, lines, onFinish).catch((error) => {
+				console.error(`Failed to save import job ${job.id} report:`, error);
+			});
+
+			return this.toJob(job);
+		} catch (error) {
+			onFinish?.();
+			throw new Error(
+				`Failed to start import: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Get an import job of a tenant
+	 *
+	 * @param contractId - Tenant contract the caller is bound to
+	 * @param jobId - ID returned by `startImport`
+	 * @returns Promise resolving to the job, or undefined if it doesn't exist or belongs to another tenant
+	 */
+	async getJob(
+		contractId: string,
+		jobId: string,
+	): Promise<ImportJob | undefined> {
+		const job = await getMemoryImportJob(contractId, jobId);
+		return job && this.toJob(job);
+	}
+
+	private async runJob(
+		jobId: string,
+		memoryService: MemoryService,
+		lines: Array<{ line: number; text: string }>,
+		onFinish?: () => void,
+	): Promise<void> {
+		const progress: MemoryImportProgress = {
+			processedLines: 0,
+			imported: 0,
+			rejected: 0,
+			reembedded: 0,
+			skipped: 0,
+			failed: 0,
+			errors: [],
+		};
+		const saveProgress = setInterval(() => {
+			updateMemoryImportJob(jobId, progress).catch((error) => {
+				console.error(`Failed to save import job ${jobId} progress:`, error);
+			});
+		}, PROGRESS_SAVE_MS);
+
+		let error: string | undefined;
+		try {
+			await this.runImport(progress, memoryService, lines);
+		} catch (failure) {
+			console.error(`Import job ${jobId} failed:`, failure);
+			error = failure instanceof Error ? failure.message : "Unknown error";
+		} finally {
+			clearInterval(saveProgress);
+			onFinish?.();
+		}
+
+		await finishMemoryImportJob(jobId, progress, error);
+		console.log(
+			`Import job ${jobId} ${error === undefined ? "completed" : "failed"}: ${progress.imported} imported, ${progress.failed} failed`,
+		);
+	}
+
+	private async runImport(
+		progress: MemoryImportProgress,
+		memoryService: MemoryService,
+		lines: Array<{ line: number; text: string }>,
+	): Promise<void> {
+		for (const { line, text } of lines) {
+			try {
+				const row = JSON.parse(text);
+
+				// Exports made with `include_history` also hold the versions a memory replaced
+				if (row?.supersededBy !== undefined && row.supersededBy !== null) {
+					progress.skipped++;
+				} else {
+					const memory = importMemorySchema.parse(row);
+					const result = await memoryService.importMemory(memory);
+
+					if (result.action === "rejected") {
+						progress.rejected++;
+					} else {
+						progress.imported++;
+						if (result.reembedded) {
+							progress.reembedded++;
+						}
+					}
+				}
+			} catch (error) {
+				progress.failed++;
+				progress.errors.push({ line, error: this.describeLineError(error) });
+			}
+
+			progress.processedLines++;
+		}
+	}
+
+	private describeLineError(error: unknown): string {
+		if (error instanceof SyntaxError) {
+			return `Invalid JSON: ${error.message}`;
+		}
+		if (error instanceof ZodError) {
+			return error.errors
+				.map((issue) => `${issue.path.join(".") || "line"}: ${issue.message}`)
+				.join("; ");
+		}
+		return error instanceof Error ? error.message : "Unknown error";
+	}
+
+	private toJob(job: MemoryImportJob): ImportJob {
+		const interrupted =
+			job.status === "running" &&
+			Date.now() - job.updatedAt.getTime() > INTERRUPTED_JOB_MS;
+
+		return {
+			id: job.id,
+			contractId: job.contractTxId,
+			status: interrupted ? "failed" : job.status,
+			totalLines: job.totalLines,
+			processedLines: job.processedLines,
+			imported: job.imported,
+			rejected: job.rejected,
+			reembedded: job.reembedded,
+			skipped: job.skipped,
+			failed: job.failed,
+			errors: job.errors,
+			createdAt: job.createdAt.toISOString(),
+			...(job.finishedAt && { finishedAt: job.finishedAt.toISOString() }),
+			...(job.error && { error: job.error }),
+			...(interrupted && {
+				error: "The import was interrupted before it finished",
+			}),
+		};
+	}
+}
+
+/**
+ * Singleton import job tracker for application-wide use.
+ */
+export const importJobService = new ImportJobService();
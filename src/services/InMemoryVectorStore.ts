@@ -0,0 +1,176 @@
+import type {
+	InsertVector,
+	SearchVector,
+	VectorMetadata,
+} from "../schemas/eizen.js";
+import {
+	HnswIndex,
+	type HnswInsertion,
+	type HnswParams,
+	getHnswParams,
+} from "./HnswIndex.js";
+import type {
+	StoredVector,
+	VectorInsertResult,
+	VectorSearchResult,
+	VectorStore,
+	VectorStoreStats,
+} from "./VectorStore.js";
+
+// One change to a store, in the order it was applied
+export type VectorStoreChange =
+	| {
+			op: "insert";
+			point: number[];
+			metadata?: VectorMetadata;
+			insertion: HnswInsertion;
+	  }
+	| { op: "delete"; id: number };
+
+/**
+ * Vector store held entirely in process memory
+ *
+ * Backed by an in-process HNSW graph, so it needs no network, wallet or
+ * contract. Contents are lost when the process exits, which makes it the
+ * store of choice for tests and CI. Deleted vectors stay in the graph to
+ * keep it navigable but are never returned again.
+ *
+ * Writes run one at a time, and each change is passed to `record` before it
+ * is applied, so a change that fails to persist leaves the store untouched.
+ */
+export class InMemoryVectorStore implements VectorStore {
+	private index: HnswIndex;
+	private metadata: Array<VectorMetadata | undefined> = [];
+	private deleted = new Set<number>();
+	private writeQueue: Promise<unknown> = Promise.resolve(); // Tail of the pending writes
+
+	constructor(
+		private readonly contractId: string,
+		private readonly params: HnswParams = getHnswParams(),
+	) {
+		this.index = new HnswIndex(params);
+	}
+
+	async insertVector(data: InsertVector): Promise<VectorInsertResult> {
+		return this.withWriteLock(async () => {
+			const dimensions = this.index.getPoint(0)?.length;
+			if (dimensions !== undefined && data.vector.length !== dimensions) {
+				throw new Error(
+					`Failed to insert vector: expected ${dimensions} dimensions, got ${data.vector.length}`,
+				);
+			}
+
+			const insertion = this.index.plan(data.vector);
+			await this.record({
+				op: "insert",
+				point: data.vector,
+				metadata: data.metadata,
+				insertion,
+			});
+
+			const vectorId = this.index.restore(data.vector, insertion);
+			this.metadata[vectorId] = data.metadata;
+
+			return {
+				success: true,
+				vectorId,
+				message: `Vector inserted successfully with ID: ${vectorId}`,
+			};
+		});
+	}
+
+	async searchVectors(data: SearchVector): Promise<VectorSearchResult[]> {
+		// Widen the beam by the deleted nodes it may have to skip
+		const ef = Math.max(this.params.efSearch, data.k) + this.deleted.size;
+
+		return this.index
+			.search(data.query, data.k, ef, (id) => !this.deleted.has(id))
+			.map((neighbor) => ({
+				...neighbor,
+				metadata: this.metadata[neighbor.id],
+			}));
+	}
+
+	async getVector(vectorId: number): Promise<StoredVector | null> {
+		const point = this.index.getPoint(vectorId);
+		if (!point || this.deleted.has(vectorId)) {
+			return null;
+		}
+		return { point, metadata: this.metadata[vectorId] };
+	}
+
+	async *scanVectors(
+		startId = 0,
+	): AsyncGenerator<{ id: number } & StoredVector> {
+		const count = this.index.size;
+
+		for (let id = startId; id < count; id++) {
+			const vector = await this.getVector(id);
+			if (vector) {
+				yield { id, ...vector };
+			}
+		}
+	}
+
+	async getVectorCount(): Promise<number> {
+		return this.index.size;
+	}
+
+	async deleteVector(vectorId: number): Promise<boolean> {
+		return this.withWriteLock(async () => {
+			if (!this.index.getPoint(vectorId) || this.deleted.has(vectorId)) {
+				return false;
+			}
+
+			await this.record({ op: "delete", id: vectorId });
+			this.deleted.add(vectorId);
+			return true;
+		});
+	}
+
+	async getStats(): Promise<VectorStoreStats> {
+		return {
+			totalVectors: this.index.size,
+			isInitialized: true,
+			contractId: this.contractId,
+		};
+	}
+
+	getContractId(): string {
+		return this.contractId;
+	}
+
+	async cleanup(): Promise<void> {
+		// Let pending writes finish; the contents themselves have nothing to release
+		await this.writeQueue;
+	}
+
+	/**
+	 * Apply a change read back from persistent storage
+	 *
+	 * @param change - Change previously passed to `record`
+	 */
+	protected replay(change: VectorStoreChange): void {
+		if (change.op === "insert") {
+			const id = this.index.restore(change.point, change.insertion);
+			this.metadata[id] = change.metadata;
+		} else {
+			this.deleted.add(change.id);
+		}
+	}
+
+	/**
+	 * Hook called before every change is applied; persistent subclasses write it out
+	 *
+	 * @param change - The change about to be applied
+	 * @throws When the change can't be persisted, which cancels it
+	 */
+	protected async record(change: VectorStoreChange): Promise<void> {}
+
+	// Run a write once every earlier write has settled
+	private async withWriteLock<T>(task: () => Promise<T>): Promise<T> {
+		const current = this.writeQueue.then(task);
+		this.writeQueue = current.catch(() => undefined);
+		return current;
+	}
+}
@@ -0,0 +1,264 @@
+import type { VectorMetadata } from "../schemas/eizen.js";
+import { ServiceRegistry } from "./ServiceRegistry.js";
+import type { VectorStore } from "./VectorStore.js";
+
+export interface LexicalSearchResult {
+	id: number;
+	score: number; // BM25 relevance (higher == more relevant, unbounded)
+	metadata?: VectorMetadata;
+}
+
+interface LexicalDocument {
+	metadata?: VectorMetadata;
+	termFrequencies: Map<string, number>;
+	length: number;
+}
+
+// Standard Okapi BM25 parameters
+const BM25_K1 = 1.2; // Term frequency saturation
+const BM25_B = 0.75; // Document length normalization
+
+/**
+ * Splits text into lowercase search terms
+ *
+ * Compound tokens such as IDs and error codes ("ERR_CONN-404", "v1.2.3") are
+ * kept whole so exact lookups work, and their parts are indexed as well so
+ * partial queries ("404") still match.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = [];
+	const compounds =
+		text.toLowerCase().match(/[\p{L}\p{N}]+(?:[_\-.:/#@][\p{L}\p{N}]+)*/gu) ??
+		[];
+
+	for (const compound of compounds) {
+		terms.push(compound);
+		const parts = compound.split(/[_\-.:/#@]/);
+		if (parts.length > 1) {
+			terms.push(...parts);
+		}
+	}
+
+	return terms;
+}
+
+/**
+ * In-memory BM25 index over the `content` of one tenant's memories
+ *
+ * Complements the embedding search, which tends to miss exact tokens like
+ * IDs, error codes and names. The index is derived data: it can always be
+ * rebuilt from the contract contents.
+ */
+export class LexicalIndex {
+	private documents = new Map<number, LexicalDocument>();
+	private documentFrequencies = new Map<string, number>();
+	private totalLength = 0;
+	scannedUpTo = 0; // Vector IDs below this have been read from the contract
+
+	/**
+	 * Adds or replaces a memory in the index
+	 *
+	 * @param id - Vector ID of the memory
+	 * @param metadata - Stored metadata; its `content` is indexed
+	 */
+	add(id: number, metadata?: VectorMetadata): void {
+		this.remove(id);
+
+		const terms = tokenize((metadata?.content as string) || "");
+		if (terms.length === 0) {
+			return; // Nothing to match, e.g. the passage vectors of long memories
+		}
+
+		const termFrequencies = new Map<string, number>();
+		for (const term of terms) {
+			termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+		}
+
+		for (const term of termFrequencies.keys()) {
+			this.documentFrequencies.set(
+				term,
+				(this.documentFrequencies.get(term) ?? 0) + 1,
+			);
+		}
+
+		this.documents.set(id, { metadata, termFrequencies, length: terms.length });
+		this.totalLength += terms.length;
+	}
+
+	/**
+	 * Removes a memory from the index (no-op if it is not indexed)
+	 *
+	 * @param id - Vector ID of the memory
+	 */
+	remove(id: number): void {
+		const document = this.documents.get(id);
+		if (!document) {
+			return;
+		}
+
+		for (const term of document.termFrequencies.keys()) {
+			const frequency = (this.documentFrequencies.get(term) ?? 1) - 1;
+			if (frequency > 0) {
+				this.documentFrequencies.set(term, frequency);
+			} else {
+				this.documentFrequencies.delete(term);
+			}
+		}
+
+		this.documents.delete(id);
+		this.totalLength -= document.length;
+	}
+
+	/**
+	 * Scores every indexed memory against the query with BM25
+	 *
+	 * @param query - Free-text query
+	 * @returns Matching memories ordered by descending score
+	 */
+	search(query: string): LexicalSearchResult[] {
+		const queryTerms = [...new Set(tokenize(query))];
+		if (queryTerms.length === 0 || this.documents.size === 0) {
+			return [];
+		}
+
+		const averageLength = this.totalLength / this.documents.size || 1;
+		const results: LexicalSearchResult[] = [];
+
+		for (const [id, document] of this.documents) {
+			let score = 0;
+			for (const term of queryTerms) {
+				const frequency = document.termFrequencies.get(term);
+				if (!frequency) {
+					continue;
+				}
+
+				const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+				const idf = Math.log(
+					1 +
+						(this.documents.size - documentFrequency + 0.5) /
+							(documentFrequency + 0.5),
+				);
+				score +=
+					(idf * frequency * (BM25_K1 + 1)) /
+					(frequency +
+						BM25_K1 *
+							(1 - BM25_B + (BM25_B * document.length) / averageLength));
+			}
+
+			if (score > 0) {
+				results.push({ id, score, metadata: document.metadata });
+			}
+		}
+
+		return results.sort((a, b) => b.score - a.score);
+	}
+
+	// Number of indexed memories
+	get size(): number {
+		return this.documents.size;
+	}
+}
+
+/**
+ * Keeps one LexicalIndex per tenant contract
+ *
+ * Indexes are built lazily by scanning the contract the first time they are
+ * needed. Contracts are append-only, so every later lookup only scans the
+ * vectors written since, whichever process or API instance wrote them.
+ * Concurrent lookups share a single scan. Indexes are evicted like services
+ * (see LEXICAL_INDEX_CACHE_SIZE and LEXICAL_INDEX_IDLE_MS) and rebuilt on
+ * next use.
+ */
+export class LexicalIndexRegistry {
+	private indexes = new ServiceRegistry<LexicalIndex>({
+		name: "LexicalIndex",
+		maxSize: Number(process.env.LEXICAL_INDEX_CACHE_SIZE) || 100,
+		idleMs: Number(process.env.LEXICAL_INDEX_IDLE_MS ?? 15 * 60 * 1000) || 0,
+		create: async () => new LexicalIndex(),
+		dispose: async () => {}, // Nothing to release beyond the memory
+	});
+	private scans = new Map<string, Promise<void>>(); // Tail of the catch-up scans of each contract
+
+	/**
+	 * Get the index for a contract, brought up to date with the contract
+	 *
+	 * @param vectorStore - The tenant's vector store
+	 * @returns Promise resolving to the tenant's index
+	 */
+	async forContract(vectorStore: VectorStore): Promise<LexicalIndex> {
+		const contractId = vectorStore.getContractId();
+		const { service: index, release } = await this.indexes.acquire(contractId);
+		release(); // The index holds no resources, so eviction never needs to wait
+
+		const previous = this.scans.get(contractId) ?? Promise.resolve();
+		const scan = previous
+			.catch(() => undefined)
+			.then(() => this.catchUp(index, vectorStore));
+		this.scans.set(contractId, scan);
+
+		try {
+			await scan;
+		} finally {
+			// Drop the chain once it's idle so it doesn't grow per contract forever
+			if (this.scans.get(contractId) === scan) {
+				this.scans.delete(contractId);
+			}
+		}
+
+		return index;
+	}
+
+	/**
+	 * Rebuild a contract's index from scratch by scanning every stored memory
+	 *
+	 * @param vectorStore - The tenant's vector store
+	 * @returns Promise resolving to the rebuilt index
+	 */
+	async rebuild(vectorStore: VectorStore): Promise<LexicalIndex> {
+		this.invalidate(vectorStore.getContractId());
+		return this.forContract(vectorStore);
+	}
+
+	/**
+	 * Drop the index of a contract; the next lookup rebuilds it
+	 *
+	 * @param contractId - Tenant contract to forget
+	 */
+	invalidate(contractId: string): void {
+		this.indexes.invalidate(contractId);
+	}
+
+	// Index the vectors written to the contract since the last scan
+	private async catchUp(
+		index: LexicalIndex,
+		vectorStore: VectorStore,
+	): Promise<void> {
+		const count = await vectorStore.getVectorCount();
+		if (count <= index.scannedUpTo) {
+			return;
+		}
+
+		const startId = index.scannedUpTo;
+		if (startId === 0) {
+			console.log(
+				`Building lexical index for contract: ${vectorStore.getContractId()}`,
+			);
+		}
+
+		for await (const vector of vectorStore.scanVectors(startId)) {
+			index.add(vector.id, vector.metadata);
+			index.scannedUpTo = Math.max(index.scannedUpTo, vector.id + 1);
+		}
+		// Deleted vectors at the end aren't yielded but were still scanned
+		index.scannedUpTo = Math.max(index.scannedUpTo, count);
+
+		if (startId === 0) {
+			console.log(`Lexical index built with ${index.size} memories`);
+		}
+	}
+}
+
+/**
+ * Singleton registry of per-tenant lexical indexes for application-wide use.
+ */
+export const lexicalIndexRegistry = new LexicalIndexRegistry();
@@ -0,0 +1,78 @@
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+	InMemoryVectorStore,
+	type VectorStoreChange,
+} from "./InMemoryVectorStore.js";
+
+/**
+ * Vector store kept in process memory and persisted to a local file
+ *
+ * Every change is appended as one JSON line to the store's log, which is
+ * replayed when the store is opened. The log records the HNSW links chosen
+ * for each insert, so replaying rebuilds the exact same graph without
+ * searching it again. Needs nothing but a writable directory, which makes it
+ * suitable for development and small single-instance deployments.
+ */
+export class LocalVectorStore extends InMemoryVectorStore {
+	private constructor(
+		contractId: string,
+		private readonly filePath: string,
+	) {
+		super(contractId);
+	}
+
+	/**
+	 * Open a local store, creating its log file if it doesn't exist
+	 *
+	 * @param contractId - Store ID ("local:<uuid>")
+	 * @param filePath - Path of the store's log file
+	 * @returns Promise resolving to the store with its log replayed
+	 */
+	static async open(
+		contractId: string,
+		filePath: string,
+	): Promise<LocalVectorStore> {
+		const store = new LocalVectorStore(contractId, filePath);
+
+		await mkdir(path.dirname(filePath), { recursive: true });
+
+		let log: string;
+		try {
+			log = await readFile(filePath, "utf-8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				throw error;
+			}
+			await writeFile(filePath, "");
+			log = "";
+		}
+
+		const lines = log.split("\n").filter((line) => line.trim().length > 0);
+		lines.forEach((line, index) => {
+			try {
+				store.replay(JSON.parse(line) as VectorStoreChange);
+			} catch (error) {
+				// A crash mid-write can only leave the last line incomplete
+				if (index < lines.length - 1) {
+					throw new Error(
+						`Corrupted vector store log ${filePath} at line ${index + 1}`,
+					);
+				}
+				console.warn(
+					`Ignoring incomplete last line of vector store log ${filePath}`,
+				);
+			}
+		});
+
+		console.log(
+			`Local vector store ${contractId} opened with ${lines.length} changes`,
+		);
+		return store;
+	}
+
+	protected async record(change: VectorStoreChange): Promise<void> {
+		// Writes are serialized, so the log keeps the order the changes are applied in
+		await appendFile(this.filePath, `${JSON.stringify(change)}\n`);
+	}
+}
@@ -1,20 +1,315 @@
-import type { SearchFilters } from "../schemas/common.js";
+import { randomUUID } from "node:crypto";
+import httpErrors from "http-errors";
+import {
+	deleteMemoryCollection,
+	getMemoryCollection,
+} from "../database/models/MemoryCollection.js";
+import {
+	createMemoryExpiry,
+	deleteMemoryExpiries,
+} from "../database/models/MemoryExpiry.js";
+import {
+	abortMemoryPurge,
+	completeMemoryPurge,
+	getMemoryPurge,
+	renewMemoryPurge,
+	startMemoryPurge,
+} from "../database/models/MemoryPurge.js";
+import {
+	createMemoryRevision,
+	deleteMemoryRevisions,
+	getSupersededVectorIds,
+} from "../database/models/MemoryRevision.js";
+import {
+	createMemoryTombstone,
+	deleteMemoryTombstones,
+	listTombstonedVectorIds,
+} from "../database/models/MemoryTombstone.js";
+import { redirectMemoryWriteJobs } from "../database/models/MemoryWriteJob.js";
+import { type SearchFilters, systemMetadataKeys } from "../schemas/common.js";
 import type { VectorMetadata } from "../schemas/eizen.js";
-import type { CreateMemory, SearchMemory } from "../schemas/memory.js";
-import type { EizenService } from "./EizenService.js";
+import {
+	type BatchCreateMemory,
+	type ContextPack,
+	type CreateMemory,
+	type ExportMemories,
+	type ImportMemory,
+	type ListMemories,
+	type PatchMemory,
+	type Ranking,
+	type RenameTags,
+	type SearchMemory,
+	type SimilarMemory,
+	dedupePolicySchema,
+} from "../schemas/memory.js";
+import { decodeCursor, encodeCursor } from "../utils/cursor.js";
+import { matchesFilter } from "../utils/filters.js";
+import {
+	cosineSimilarity,
+	maximalMarginalRelevance,
+	rankByDistance,
+} from "../utils/vector.js";
 import { embeddingService } from "./EmbeddingService.js";
+import { lexicalIndexRegistry } from "./LexicalIndex.js";
+import { memorySettingsCache } from "./MemorySettingsCache.js";
+import { tokenCounter } from "./TokenCounter.js";
+import {
+	type StoredVector,
+	type VectorSearchResult,
+	type VectorStore,
+	deployVectorStore,
+	getVectorStoreKind,
+	invalidateVectorStore,
+	withVectorStore,
+} from "./VectorStore.js";
+import { writeOverlay } from "./WriteOverlay.js";
 
 export interface MemoryResult {
 	id: number;
 	content?: string;
 	metadata?: VectorMetadata;
-	distance?: number;
+	distance?: number; // Cosine distance from the query (lower value == higher similarity)
+	score?: number; // Similarity in [0, 1] derived from distance, see SearchMemoriesResult.scoring
+	keywordScore?: number; // BM25 score, set for keyword and hybrid searches
+	fusionScore?: number; // Reciprocal rank fusion score, set for hybrid searches
+	supersededBy?: number; // Set when a newer version of this memory exists
+	passage?: string; // Best-matching passage of a long (chunked) memory, set on search results
+	ranking?: RankingContributions; // Set when weighted ranking is applied
+}
+
+// Share of each component in a weighted ranking score; the parts sum to `total`
+export interface RankingContributions {
+	similarity: number;
+	recency: number;
+	importance: number;
+	total: number;
+}
+
+export type RankingParameters = Required<Ranking>;
+
+export interface SearchScoring {
+	metric: "cosine";
+	distance: string;
+	score: string;
+	ranking?: RankingParameters & { formula: string }; // Effective weights when weighted ranking is applied
+}
+
+export interface SearchMemoriesResult {
+	memories: MemoryResult[];
+	exhaustive: boolean; // True when every stored memory was considered, so no further matches exist
+	candidatesExamined: number; // Nearest neighbours fetched before filtering
+	scoring: SearchScoring; // How `score` is derived, so clients can apply consistent cutoffs
+	facets?: SearchFacets; // Only when requested
+	pending?: PendingMemoryResult[]; // Queued writes matching the query, set when there are any
+}
+
+// Memory accepted by the write queue but not stored yet
+export interface PendingMemoryResult {
+	jobId: string;
+	content: string;
+	metadata: NonNullable<VectorMetadata>;
+	distance: number;
+	score: number;
+}
+
+// Number of returned memories per tag, client and importance bucket
+export type SearchFacets = Partial<
+	Record<NonNullable<SearchMemory["facets"]>[number], Record<string, number>>
+>;
+
+export interface TagCount {
+	tag: string;
+	count: number; // Memories (latest versions) carrying the tag
+}
+
+export interface RenameTagsResult {
+	updatedMemories: number;
+	updates: Array<{ previousMemoryId: number; memoryId: number }>;
+	failed: Array<{ memoryId: number; error: string }>;
+}
+
+// Reference from a context pack entry `[ref]` back to its memory
+export interface ContextCitation {
+	ref: number;
+	memoryId: number;
+	score?: number;
+	createdAt?: string;
+	excerpt: boolean; // True when only the best-matching passage of a long memory fit
+}
+
+export interface ContextPackResult {
+	context: string; // Prompt block, empty when no memory fits the budget
+	tokens: number; // Tokens used by `context`
+	maxTokens: number;
+	tokenizer: string; // Tokenizer the counts are based on
+	citations: ContextCitation[];
+	duplicates: number; // Hits dropped as repeats of a higher-ranked memory
+	omitted: number; // Relevant memories left out because they did not fit
+}
+
+// Intermediate result of a single retrieval strategy, before scoring is attached
+type CandidateSet = Omit<SearchMemoriesResult, "scoring">;
+
+export interface ListMemoriesResult {
+	memories: MemoryResult[];
+	total: number; // Memories matching the filters across all pages
+	nextCursor: string | null; // Pass as `cursor` to fetch the next page; null on the last page
+}
+
+// One line of an NDJSON export
+export interface ExportedMemory {
+	id: number;
+	content?: string;
+	metadata: Record<string, unknown>; // Client metadata, without system keys
+	collection?: string;
+	createdAt?: string;
+	supersededBy?: number; // Only with include_history
+	vector?: number[]; // Only with include_vectors; embedding of the first passage
+	model?: string; // Embedding model that produced `vector`
 }
 
 export interface CreateMemoryResult {
 	success: boolean;
 	memoryId: number;
 	message: string;
+	action?: "created" | "merged" | "rejected"; // Outcome of the near-duplicate check
+	existingMemoryId?: number; // Near-duplicate found for the content, if any
+	similarity?: number; // Similarity score between the content and existingMemoryId
+}
+
+export interface ImportMemoryResult extends CreateMemoryResult {
+	reembedded: boolean; // False when the supplied vector was reused
+}
+
+export interface BatchItemResult {
+	index: number; // Position of the item in the request
+	status: "created" | "merged" | "rejected" | "failed";
+	memoryId?: number;
+	existingMemoryId?: number; // Near-duplicate the item was merged into or rejected for
+	error?: string;
+}
+
+export interface BatchCreateMemoryResult {
+	created: number;
+	merged: number; // Near-duplicates merged into an existing memory
+	rejected: number; // Near-duplicates rejected by the dedupe policy
+	failed: number; // Items that could not be stored
+	results: BatchItemResult[];
+}
+
+export interface UpdateMemoryResult extends CreateMemoryResult {
+	previousMemoryId: number;
+	version: number;
+}
+
+export interface PurgeMemoriesResult {
+	previousContractId: string;
+	contractId: string;
+	keptMemories: number;
+	purgedMemories: number;
+}
+
+// Number of texts sent to the embedding model per batch call
+const EMBEDDING_BATCH_SIZE =
+	Number(process.env.MEMORY_EMBEDDING_BATCH_SIZE) || 32;
+
+// Upper bound on nearest neighbours fetched while over-fetching for filtered searches
+const MAX_SEARCH_CANDIDATES =
+	Number(process.env.MEMORY_SEARCH_MAX_CANDIDATES) || 1000;
+
+// Contracts with at most this many vectors are always searched exactly (0 disables)
+const EXACT_SEARCH_MAX_VECTORS =
+	Number(process.env.MEMORY_EXACT_SEARCH_MAX_VECTORS) || 0;
+
+// Candidate pool size, as a multiple of k, that re-ranking (MMR, weighted ranking) picks from
+const RERANK_POOL_FACTOR = 4;
+
+// Built-in weighted ranking parameters, overridden by tenant defaults and then by the request
+const DEFAULT_RANKING: RankingParameters = {
+	similarity: 1,
+	recency: 0.2,
+	importance: 0.2,
+	half_life_hours: 24 * 7,
+};
+
+// First line of a context pack, telling the LLM how to cite entries
+const CONTEXT_HEADER = "Relevant memories (cite as [n]):";
+
+// Importance facet buckets as [label, lowest importance, highest importance]
+const IMPORTANCE_BUCKETS: Array<[string, number, number]> = [
+	["1-3", 1, 3],
+	["4-7", 4, 7],
+	["8-10", 8, 10],
+];
+
+// Importance assumed for memories stored without one
+const DEFAULT_IMPORTANCE = 5;
+
+const RANKING_FORMULA =
+	"total = (similarity_weight * score + recency_weight * 0.5^(age_hours / half_life_hours) + importance_weight * (importance - 1) / 9) / sum(weights); age is taken from metadata.timestamp, else createdAt";
+
+// Eizen returns cosine distance; scores are the cosine similarity clamped to [0, 1]
+const SEARCH_SCORING: SearchScoring = {
+	metric: "cosine",
+	distance: "1 - cosine_similarity(query, memory), in [0, 2]",
+	score:
+		"max(0, min(1, 1 - distance)), i.e. cosine similarity clamped to [0, 1]",
+};
+
+// Similarity score at or above which new content counts as a near-duplicate
+const DEDUPE_THRESHOLD = Number(process.env.MEMORY_DEDUPE_THRESHOLD) || 0.95;
+
+// Policy applied when a create request doesn't specify one
+const DEFAULT_DEDUPE_POLICY = dedupePolicySchema
+	.catch("insert")
+	.parse(process.env.MEMORY_DEDUPE_POLICY);
+
+// Reciprocal rank fusion constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+// Token budget per stored passage; the embedding model truncates longer input
+const CHUNK_TOKENS = Number(process.env.MEMORY_CHUNK_TOKENS) || 200;
+
+// Tokens shared between consecutive passages of a long memory
+const CHUNK_OVERLAP_TOKENS =
+	Number(process.env.MEMORY_CHUNK_OVERLAP_TOKENS) || 40;
+
+// A purge that stops renewing its lease for this long counts as abandoned, and writes resume
+const PURGE_TIMEOUT_MS =
+	Number(process.env.MEMORY_PURGE_TIMEOUT_MS) || 10 * 60 * 1000;
+
+// How often a running purge renews its lease
+const PURGE_RENEW_MS = PURGE_TIMEOUT_MS / 3;
+
+// Quiet time a purge waits for writes that were already in flight when it started
+const PURGE_SETTLE_MS = 2000;
+
+interface MemoryState {
+	deletedIds: Set<number>;
+	supersededBy: Map<number, number>;
+}
+
+/**
+ * Refuses writes to a contract that is being purged or was replaced by a purge
+ *
+ * A write landing in the old contract after the purge copied it would be
+ * lost. Clients retry once the purge is done; their API key then points at
+ * the new contract.
+ *
+ * @param contractId - Contract about to be written to
+ * @throws {HttpError} 423 when the contract is being purged or was replaced
+ */
+export async function assertMemoriesWritable(
+	contractId: string,
+): Promise<void> {
+	const purge = await getMemoryPurge(contractId);
+	if (purge) {
+		throw new httpErrors.Locked(
+			purge.replacedBy
+				? "Memories have moved to a new contract, retry the request"
+				: "Memories are being purged, retry shortly",
+		);
+	}
 }
 
 export interface MemoryStats {
@@ -33,14 +328,14 @@ export interface MemoryStats {
  * - Managing memory lifecycle and statistics
  *
  * Architecture:
- * Text Input → EmbeddingService → Vector → EizenService → Storage
- * Text Query → EmbeddingService → Vector → EizenService → Similar Memories
+ * Text Input → EmbeddingService → Vector → VectorStore → Storage
+ * Text Query → EmbeddingService → Vector → VectorStore → Similar Memories
  *
  * @example
  * ```typescript
  * // Create memory service for a specific user
- * const userEizenService = await EizenService.forContract(userContractId);
- * const memoryService = new MemoryService(userEizenService);
+ * const { store, release } = await acquireVectorStore(userContractId);
+ * const memoryService = new MemoryService(store);
  *
  * // Create a memory
  * const result = await memoryService.createMemory({
@@ -56,28 +351,34 @@ export interface MemoryStats {
  * ```
  */
 export class MemoryService {
-	private eizenService: EizenService;
+	private vectorStore: VectorStore;
+	private userId?: string;
 
 	/**
 	 * Creates a new MemoryService instance for a specific user
 	 *
-	 * @param eizenService - User-specific EizenService instance
+	 * @param vectorStore - User-specific vector store (Eizen contract or local store)
+	 * @param userId - Tenant owning the contract; required to use collections
 	 */
-	constructor(eizenService: EizenService) {
-		this.eizenService = eizenService;
+	constructor(vectorStore: VectorStore, userId?: string) {
+		this.vectorStore = vectorStore;
+		this.userId = userId;
 	}
 	/**
 	 * Creates a new memory from text content
 	 *
 	 * Process:
-	 * 1. Converts text to vector embeddings using Xenova transformers
-	 * 2. Enhances metadata with system information
-	 * 3. Stores the vector in Eizen vector database
+	 * 1. Converts text to vector embeddings using Xenova transformers; content
+	 *    longer than MEMORY_CHUNK_TOKENS is split into overlapping passages
+	 * 2. Checks for a near-duplicate and applies the dedupe policy
+	 * 3. Enhances metadata with system information
+	 * 4. Stores the vector in Eizen vector database
 	 *
 	 * @param data - Memory creation parameters
 	 * @param data.content - The text content to store as memory
 	 * @param data.metadata - Optional metadata (tags, importance, etc.)
-	 * @returns Promise resolving to creation result with new memory ID
+	 * @param data.dedupe - Near-duplicate policy: "reject", "merge" or "insert"
+	 * @returns Promise resolving to creation result with the memory ID and the action taken
 	 *
 	 * @throws {Error} When embedding generation or storage fails
 	 *
@@ -95,35 +396,23 @@ export class MemoryService {
 	 */
 	async createMemory(data: CreateMemory): Promise<CreateMemoryResult> {
 		try {
+			await assertMemoriesWritable(this.vectorStore.getContractId());
+
 			console.log(
 				`Creating memory from ${data.content.length} characters of content`,
 			);
 
-			// Step 1: Convert human-readable text into numerical vectors
+			// Step 1: Convert human-readable text into numerical vectors, one per passage
 			// This enables semantic similarity matching later
 			// NOTE: For now we are only embedding the content. Metadata embedding is still in consideration
-			const embeddings = await this.textToEmbeddings(data.content);
+			const { passages, embeddings } = await this.embedContent(data.content);
 
-			// Step 2: Enhance user-provided metadata with system metadata
-			// This ensures we have audit trail and content reference. More key-values can be added later
-			const enhancedMetadata: VectorMetadata = {
-				...data.metadata,
-				content: data.content,
-			};
-			// Step 3: Store the vector and metadata in Eizen vector database
-			const result = await this.eizenService.insertVector({
-				vector: embeddings, // currently API received content == vector // metadata != vector
-				metadata: enhancedMetadata,
-			});
-
-			console.log(`Memory created successfully with ID: ${result.vectorId}`);
-
-			return {
-				success: true,
-				memoryId: result.vectorId,
-				message: `Memory created from ${data.content.length} characters of content`,
-			};
+			// Steps 2-4: Dedupe, then store the vectors and metadata in Eizen
+			return await this.storeMemory(data, passages, embeddings);
 		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
 			console.error("Failed to create memory:", error);
 			throw new Error(
 				`Failed to create memory: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -131,6 +420,170 @@ export class MemoryService {
 		}
 	}
 
+	/**
+	 * Creates many memories in one call
+	 *
+	 * Contents are embedded in chunks through
+	 * `embeddingService.batchTextToEmbeddings` and then inserted one by one.
+	 * A failure only affects the items it concerns: a failed embedding chunk
+	 * marks that chunk's items as failed, a failed insert marks that item.
+	 * Each item's dedupe policy is applied as in `createMemory`, so an item can
+	 * also end up merged or rejected; items are stored in order and later ones
+	 * are checked against earlier ones.
+	 *
+	 * @param data - Batch of memory creation requests
+	 * @returns Promise resolving to a per-item result in request order
+	 *
+	 * @example
+	 * ```typescript
+	 * const { created, results } = await memoryService.createMemories({
+	 *   memories: [
+	 *     { content: "User prefers dark mode" },
+	 *     { content: "User works remotely on Fridays" },
+	 *   ],
+	 * });
+	 * ```
+	 */
+	async createMemories(
+		data: BatchCreateMemory,
+	): Promise<BatchCreateMemoryResult> {
+		console.log(`Creating ${data.memories.length} memories in batch`);
+
+		await assertMemoriesWritable(this.vectorStore.getContractId());
+
+		const results: BatchItemResult[] = [];
+
+		for (
+			let start = 0;
+			start < data.memories.length;
+			start += EMBEDDING_BATCH_SIZE
+		) {
+			const chunk = data.memories.slice(start, start + EMBEDDING_BATCH_SIZE);
+
+			let passages: string[][];
+			let embeddings: number[][];
+			try {
+				passages = await Promise.all(
+					chunk.map((memory) =>
+						embeddingService.chunkText(
+							memory.content,
+							CHUNK_TOKENS,
+							CHUNK_OVERLAP_TOKENS,
+						),
+					),
+				);
+				embeddings = await this.embedPassages(passages.flat());
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				chunk.forEach((_, offset) => {
+					results.push({
+						index: start + offset,
+						status: "failed",
+						error: message,
+					});
+				});
+				continue;
+			}
+
+			let position = 0;
+			for (const [offset, memory] of chunk.entries()) {
+				const index = start + offset;
+				const itemEmbeddings = embeddings.slice(
+					position,
+					position + passages[offset].length,
+				);
+				position += passages[offset].length;
+
+				try {
+					const result = await this.storeMemory(
+						memory,
+						passages[offset],
+						itemEmbeddings,
+					);
+					results.push({
+						index,
+						status: result.action ?? "created",
+						memoryId: result.memoryId,
+						...(result.existingMemoryId !== undefined && {
+							existingMemoryId: result.existingMemoryId,
+						}),
+					});
+				} catch (error) {
+					results.push({
+						index,
+						status: "failed",
+						error: error instanceof Error ? error.message : "Unknown error",
+					});
+				}
+			}
+		}
+
+		const count = (status: BatchItemResult["status"]) =>
+			results.filter((result) => result.status === status).length;
+		const summary = {
+			created: count("created"),
+			merged: count("merged"),
+			rejected: count("rejected"),
+			failed: count("failed"),
+		};
+
+		console.log(
+			`Batch complete: ${summary.created} created, ${summary.merged} merged, ${summary.rejected} rejected, ${summary.failed} failed`,
+		);
+
+		return { ...summary, results };
+	}
+
+	/**
+	 * Creates a memory from one line of an NDJSON import
+	 *
+	 * A supplied vector is reused only when it was produced by the current
+	 * embedding model, has the model's dimensionality and the content fits a
+	 * single passage (exports carry the embedding of the first passage only).
+	 * Otherwise the content is re-embedded. The dedupe policy applies as in
+	 * `createMemory`.
+	 *
+	 * @param data - Validated import line
+	 * @returns Promise resolving to the creation result and whether the content was re-embedded
+	 *
+	 * @throws {Error} When embedding generation or storage fails
+	 */
+	async importMemory(data: ImportMemory): Promise<ImportMemoryResult> {
+		try {
+			await assertMemoriesWritable(this.vectorStore.getContractId());
+
+			const { vector, model, ...memory } = data;
+			const info = embeddingService.getInfo();
+
+			const passages = await embeddingService.chunkText(
+				memory.content,
+				CHUNK_TOKENS,
+				CHUNK_OVERLAP_TOKENS,
+			);
+			const reusable =
+				vector !== undefined &&
+				model === info.model &&
+				vector.length === info.dimensions &&
+				passages.length === 1;
+
+			const embeddings = reusable
+				? [vector]
+				: await this.embedPassages(passages);
+			const result = await this.storeMemory(memory, passages, embeddings);
+
+			return { ...result, reembedded: !reusable };
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error("Failed to import memory:", error);
+			throw new Error(
+				`Failed to import memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
 	/**
 	 * Searches memories using natural language queries
 	 *
@@ -141,14 +594,40 @@ export class MemoryService {
 	 * Process:
 	 * 1. Converts search query to vector embeddings
 	 * 2. Performs similarity search in vector space
-	 * 3. Applies optional filters (tags, dates, etc.)
+	 * 3. Applies optional filters (tags, dates, etc.), over-fetching candidates
+	 *    until k memories pass or MEMORY_SEARCH_MAX_CANDIDATES is reached
 	 * 4. Returns ranked results by similarity
 	 *
+	 * Search modes:
+	 * - "vector" (default): embedding similarity only
+	 * - "keyword": BM25 over memory content, for exact tokens like IDs and error codes
+	 * - "hybrid": both result lists merged with reciprocal rank fusion
+	 *
+	 * When `diversity` is set, an over-fetched candidate pool is re-ranked with
+	 * maximal marginal relevance (MMR) to avoid returning near-duplicates.
+	 *
+	 * When `ranking` is set (or the tenant enabled it by default), the pool is
+	 * re-ranked by a weighted blend of similarity, recency and importance, and
+	 * every result reports each component's contribution.
+	 *
+	 * Long memories are stored as several passages and matched by their best
+	 * passage, which is returned alongside the full content as `passage`.
+	 *
+	 * With `exact` the vector search compares the query with every stored
+	 * vector instead of walking the approximate HNSW index.
+	 *
 	 * @param data - Search parameters
 	 * @param data.query - Natural language search query
 	 * @param data.k - Maximum number of results to return
 	 * @param data.filters - Optional filters for metadata
-	 * @returns Promise resolving to array of matching memories
+	 * @param data.mode - Retrieval mode: "vector", "keyword" or "hybrid"
+	 * @param data.diversity - Optional MMR lambda (1 = pure relevance, 0 = maximum diversity)
+	 * @param data.min_score - Optional minimum similarity score in [0, 1]
+	 * @param data.exact - Whether to search every stored vector instead of the HNSW index
+	 * @param data.ranking - Optional weighted ranking parameters
+	 * @param data.facets - Optional facets to count over the returned memories
+	 * @returns Promise resolving to matching memories, and whether the whole
+	 * index was considered (`exhaustive`)
 	 *
 	 * @throws {Error} When embedding generation or search fails
 	 *
@@ -158,46 +637,144 @@ export class MemoryService {
 	 *   query: "client communication preferences",
 	 *   k: 10,
 	 *   filters: {
-	 *     tags: ["client-info"],
-	 *     importance_min: 5,
-	 *     date_from: "2024-01-01"
+	 *     and: [
+	 *       { tags: { all: ["client-info"] } },
+	 *       { range: { field: "importance", gte: 5 } },
+	 *       { range: { field: "createdAt", gte: "2024-01-01T00:00:00Z" } }
+	 *     ]
 	 *   }
 	 * });
 	 * ```
 	 */
-	async searchMemories(data: SearchMemory): Promise<MemoryResult[]> {
+	async searchMemories(data: SearchMemory): Promise<SearchMemoriesResult> {
 		try {
 			console.log(`Searching memories with query: "${data.query}"`);
 
+			if (data.collection) {
+				await this.requireCollection(data.collection);
+			}
+
+			const k = data.k || 10; // Limit number of results (default is 10)
+			const mode = data.mode ?? "vector";
+			const diversify = data.diversity !== undefined;
+			const ranking = await this.resolveRanking(data.ranking);
+
+			// MMR and weighted ranking need a wider pool of relevant candidates to pick from
+			const poolSize = diversify || ranking ? k * RERANK_POOL_FACTOR : k;
+
 			// Step 1: Convert search query into the same vector space as stored memories
 			// This enables semantic comparison (similarity matching)
-			const queryEmbeddings = await this.textToEmbeddings(data.query);
+			// Keyword-only searches skip this unless scores are needed for re-ranking or min_score
+			const needsEmbeddings =
+				mode !== "keyword" ||
+				diversify ||
+				ranking !== null ||
+				data.min_score !== undefined;
+			const queryEmbeddings = needsEmbeddings
+				? await this.textToEmbeddings(data.query)
+				: [];
 
-			// Step 2: Perform vector similarity search in Eizen
-			// Uses cosine similarity or similar algorithms to find closest matches
-			const searchResults = await this.eizenService.searchVectors({
-				query: queryEmbeddings,
-				k: data.k || 10, // Limit number of results (default is 10)
-			});
+			let result: CandidateSet;
+			if (mode === "keyword") {
+				// Keyword-only: BM25 over memory content
+				result = await this.searchKeyword(
+					data.query,
+					poolSize,
+					data,
+					queryEmbeddings,
+				);
+			} else {
+				// Step 2: Perform vector similarity search in Eizen, dropping memories that
+				// are deleted, superseded or rejected by the filters (tags, dates, importance, etc.)
+				// Over-fetches until enough memories survive filtering so filters don't starve the result set
+				// Hybrid searches fetch deeper lists from both retrievers before fusing them
+				const depth = mode === "hybrid" ? poolSize * 2 : poolSize;
+				result = await this.searchCandidates(queryEmbeddings, depth, data);
 
-			// Step 3: Transform Eizen results into our memory format
-			// Extract content from metadata for easier access
-			const memories: MemoryResult[] = searchResults.map((result) => ({
-				id: result.id,
-				content: (result.metadata?.content as string) || undefined,
-				metadata: result.metadata,
-				distance: result.distance,
-			}));
+				// Step 3: Merge with keyword matches using reciprocal rank fusion
+				if (mode === "hybrid") {
+					const keyword = await this.searchKeyword(
+						data.query,
+						depth,
+						data,
+						queryEmbeddings,
+					);
+					result = {
+						memories: this.fuseRankings(
+							result.memories,
+							keyword.memories,
+							poolSize,
+						),
+						exhaustive: result.exhaustive,
+						candidatesExamined: result.candidatesExamined,
+					};
+				}
+			}
+
+			// Step 4: Score every result against the query and drop low-confidence matches
+			// Keyword hits don't come with a distance, so it is computed from their stored vectors
+			if (needsEmbeddings) {
+				const memories = await this.fillDistances(
+					result.memories,
+					queryEmbeddings,
+				);
+				result = {
+					...result,
+					memories: memories.filter(
+						(memory) =>
+							data.min_score === undefined ||
+							(memory.score ?? 0) >= data.min_score,
+					),
+				};
+			}
+
+			// Step 5: Re-rank for diversity so near-duplicates don't crowd out other facts
+			if (data.diversity !== undefined) {
+				result = {
+					...result,
+					memories: await this.diversify(
+						result.memories,
+						queryEmbeddings,
+						k,
+						data.diversity,
+					),
+				};
+			}
+
+			// Step 6: Blend similarity with recency and importance
+			if (ranking) {
+				result = {
+					...result,
+					memories: this.rankWeighted(result.memories, ranking).slice(0, k),
+				};
+			}
 
-			// Step 4: Apply additional filters based on metadata
-			// This allows filtering by tags, dates, importance, etc.
-			// NOTE: Still theoretical. may not work properly
-			const filteredMemories = this.applyFilters(memories, data.filters);
+			console.log(
+				`Found ${result.memories.length} relevant memories from ${result.candidatesExamined} candidates`,
+			);
 
-			console.log(`Found ${filteredMemories.length} relevant memories`);
+			// Step 7: Add matching writes that are still queued, kept apart as they have no memory ID yet
+			const pending = needsEmbeddings
+				? await this.searchPending(queryEmbeddings, k, data)
+				: [];
 
-			return filteredMemories;
+			return {
+				...result,
+				scoring: ranking
+					? {
+							...SEARCH_SCORING,
+							ranking: { ...ranking, formula: RANKING_FORMULA },
+						}
+					: SEARCH_SCORING,
+				...(data.facets && {
+					facets: this.countFacets(result.memories, data.facets),
+				}),
+				...(pending.length > 0 && { pending }),
+			};
 		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
 			console.error("Failed to search memories:", error);
 			throw new Error(
 				`Failed to search memories: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -206,133 +783,2166 @@ export class MemoryService {
 	}
 
 	/**
-	 * Retrieves a specific memory by its unique identifier
+	 * Finds memories related to an existing one ("more like this")
 	 *
-	 * Used when user have a memory ID and need to fetch its full content
-	 * and metadata. Unlike search, this is a direct lookup operation.
+	 * Runs the kNN search from the memory's stored vector, so nothing is
+	 * re-embedded, and leaves the memory itself out of the results. Filters
+	 * and visibility rules work as in `searchMemories`.
 	 *
-	 * @param memoryId - The unique ID of the memory to retrieve
-	 * @returns Promise resolving to memory data or null if not found
+	 * @param memoryId - ID of the source memory
+	 * @param data - Number of results, filters, history visibility, minimum score and collection
+	 * @returns Promise resolving to the related memories, or null if the source memory does not exist
 	 *
-	 * @throws {Error} When retrieval operation fails
+	 * @throws {HttpError} 404 when the collection does not exist
+	 * @throws {Error} When the lookup or search fails
 	 *
 	 * @example
 	 * ```typescript
-	 * const memory = await memoryService.getMemory(123);
-	 * if (memory) {
-	 *   console.log(`Memory content: ${memory.content}`);
-	 * }
+	 * const related = await memoryService.findSimilarMemories(42, { k: 5, include_history: false });
 	 * ```
 	 */
-	async getMemory(memoryId: number): Promise<MemoryResult | null> {
+	async findSimilarMemories(
+		memoryId: number,
+		data: SimilarMemory,
+	): Promise<SearchMemoriesResult | null> {
 		try {
-			console.log(`Retrieving memory with ID: ${memoryId}`);
+			console.log(`Finding memories similar to ${memoryId}`);
 
-			// Direct lookup in Eizen by vector ID
-			const vector = await this.eizenService.getVector(memoryId);
+			if (data.collection) {
+				await this.requireCollection(data.collection);
+			}
 
+			const source = await this.getMemory(memoryId);
+			const vector = source && (await this.vectorStore.getVector(memoryId));
 			if (!vector) {
 				return null;
 			}
 
-			// Transform Eizen vector into our memory format
-			return {
-				id: memoryId,
-				content: (vector.metadata?.content as string) || undefined,
-				metadata: vector.metadata,
-			};
+			// One extra neighbour makes up for the source memory, which matches itself
+			const result = await this.searchCandidates(
+				vector.point,
+				data.k + 1,
+				data,
+			);
+			const memories = result.memories
+				.filter((memory) => memory.id !== memoryId)
+				.slice(0, data.k)
+				.map((memory) => ({
+					...memory,
+					score: this.distanceToScore(memory.distance ?? 2),
+				}));
+
+			console.log(
+				`Found ${memories.length} memories similar to ${memoryId} from ${result.candidatesExamined} candidates`,
+			);
+
+			return { ...result, memories, scoring: SEARCH_SCORING };
 		} catch (error) {
-			console.error(`Failed to retrieve memory ${memoryId}:`, error);
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error(`Failed to find memories similar to ${memoryId}:`, error);
 			throw new Error(
-				`Failed to retrieve memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+				`Failed to find similar memories: ${error instanceof Error ? error.message : "Unknown error"}`,
 			);
 		}
 	}
 
 	/**
-	 * Retrieves system statistics and health information
+	 * Builds a prompt-ready block of the memories most relevant to a query
 	 *
-	 * Useful for monitoring, debugging, and displaying system status
-	 * to users. Aggregates data from both Eizen and embedding services.
+	 * Runs the search, drops hits whose content repeats a higher-ranked one,
+	 * and adds memories in ranking order while they fit within `max_tokens`.
+	 * A long memory that does not fit whole is represented by its
+	 * best-matching passage. Each entry is numbered so the LLM can cite it,
+	 * and `citations` maps the numbers back to memory IDs.
 	 *
-	 * @returns Promise resolving to current system statistics
+	 * @param data - Query, token budget and search parameters
+	 * @param data.max_tokens - Token budget of the whole block
+	 * @param data.k - Candidate memories considered before fitting the budget
+	 * @returns Promise resolving to the block, its token count and citations
+	 *
+	 * @throws {HttpError} 404 when the collection does not exist
+	 * @throws {Error} When the search or token counting fails
 	 *
 	 * @example
 	 * ```typescript
-	 * const stats = await memoryService.getStats();
-	 * console.log(`Total memories: ${stats.totalMemories}`);
-	 * console.log(`System ready: ${stats.isInitialized}`);
+	 * const pack = await memoryService.buildContext({
+	 *   query: "how does the user like to be contacted?",
+	 *   max_tokens: 500,
+	 *   k: 20,
+	 *   mode: "hybrid",
+	 * });
+	 * const prompt = `${pack.context}\n\nQuestion: ...`;
 	 * ```
-	 *
-	 * @TODO Need further work (Probably wrote it in diff file)
 	 */
-	async getStats(): Promise<MemoryStats> {
+	async buildContext(data: ContextPack): Promise<ContextPackResult> {
 		try {
-			const eizenStats = await this.eizenService.getStats();
-			const embeddingInfo = embeddingService.getInfo();
+			console.log(
+				`Building context for "${data.query}" within ${data.max_tokens} tokens`,
+			);
+
+			const { memories } = await this.searchMemories({
+				...data,
+				include_history: false,
+			});
+
+			// Identical content (ignoring case and spacing) only needs to appear once
+			const seen = new Set<string>();
+			const unique = memories.filter((memory) => {
+				const key = (memory.content ?? "")
+					.toLowerCase()
+					.replace(/\s+/g, " ")
+					.trim();
+				if (!key || seen.has(key)) {
+					return false;
+				}
+				seen.add(key);
+				return true;
+			});
+
+			const lines = [CONTEXT_HEADER];
+			const citations: ContextCitation[] = [];
+			let tokens = await tokenCounter.count(CONTEXT_HEADER);
+
+			for (const memory of unique) {
+				const ref = citations.length + 1;
+				const createdAt = memory.metadata?.createdAt as string | undefined;
+				const prefix = `[${ref}] ${createdAt ? `(${createdAt.slice(0, 10)}) ` : ""}`;
+
+				const candidates: Array<{ text: string; excerpt: boolean }> = [
+					{ text: memory.content as string, excerpt: false },
+				];
+				if (memory.passage && memory.passage !== memory.content) {
+					candidates.push({ text: memory.passage, excerpt: true });
+				}
+
+				for (const candidate of candidates) {
+					const line = `${prefix}${candidate.text}`;
+					const lineTokens = await tokenCounter.count(`\n${line}`);
+					if (tokens + lineTokens > data.max_tokens) {
+						continue;
+					}
+
+					lines.push(line);
+					tokens += lineTokens;
+					citations.push({
+						ref,
+						memoryId: memory.id,
+						score: memory.score,
+						createdAt,
+						excerpt: candidate.excerpt,
+					});
+					break;
+				}
+			}
+
+			// Entries are counted one by one; make sure the joined block fits too
+			let context = lines.join("\n");
+			tokens = await tokenCounter.count(context);
+			while (tokens > data.max_tokens && citations.length > 0) {
+				lines.pop();
+				citations.pop();
+				context = lines.join("\n");
+				tokens = await tokenCounter.count(context);
+			}
+
+			if (citations.length === 0) {
+				context = "";
+				tokens = 0;
+			}
+
+			console.log(
+				`Context built with ${citations.length} memories in ${tokens} tokens`,
+			);
 
 			return {
-				totalMemories: eizenStats.totalVectors,
-				embeddingService: embeddingInfo.isInitialized
-					? "xenova"
-					: "unavailable",
-				isInitialized: eizenStats.isInitialized && embeddingInfo.isInitialized,
+				context,
+				tokens,
+				maxTokens: data.max_tokens,
+				tokenizer: tokenCounter.getName(),
+				citations,
+				duplicates: memories.length - unique.length,
+				omitted: unique.length - citations.length,
 			};
 		} catch (error) {
-			console.error("Failed to get memory stats:", error);
-			return {
-				totalMemories: 0,
-				embeddingService: "unavailable",
-				isInitialized: false,
-			};
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error("Failed to build context:", error);
+			throw new Error(
+				`Failed to build context: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
 		}
 	}
 
-	// ============================================================================
-	// Internal Helper Functions
-	// These methods support the main public API but are not intended to be used
-	// directly by external callers.
-	// ============================================================================
-
 	/**
-	 * Converts text content into numerical vector embeddings
+	 * Lists memories page by page without a query
 	 *
-	 * This is the core ML operation that enables semantic search.
-	 * Uses transformer models (via Xenova) to create high-dimensional
-	 * vectors that capture semantic meaning of text.
+	 * Scans the contract, applies the same visibility rules and filters as
+	 * search, and orders the memories by creation time or importance (ties
+	 * broken by ID). Pagination is keyset-based: the cursor encodes the sort
+	 * key and ID of the last memory returned, so pages stay stable while new
+	 * memories are written.
 	 *
-	 * @private This is an internal helper method
-	 * @param text - The text content to vectorize
-	 * @returns Promise resolving to numerical embedding array
+	 * The keyset condition is applied while scanning and only the page is
+	 * kept and sorted, so memory use stays bounded by the page size. The sort
+	 * keys live in metadata the vector store can't index, though, so every
+	 * page still reads the whole contract: the cost of a page grows with the
+	 * number of memories, not with how deep the page is.
 	 *
-	 * @throws {Error} When embedding generation fails
+	 * @param data - Listing parameters
+	 * @param data.limit - Page size
+	 * @param data.cursor - `nextCursor` of the previous page
+	 * @param data.sort - "createdAt" or "importance"
+	 * @param data.order - "asc" or "desc"
+	 * @param data.filters - Optional filters for metadata
+	 * @returns Promise resolving to one page of memories and the next cursor
+	 *
+	 * @throws {HttpError} 400 when the cursor is malformed
+	 * @throws {Error} When scanning the contract fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const params = { limit: 50, sort: "importance", order: "desc", include_history: false } as const;
+	 * const page = await memoryService.listMemories(params);
+	 * if (page.nextCursor) {
+	 *   const next = await memoryService.listMemories({ ...params, cursor: page.nextCursor });
+	 * }
+	 * ```
 	 */
-	private async textToEmbeddings(text: string): Promise<number[]> {
+	async listMemories(data: ListMemories): Promise<ListMemoriesResult> {
 		try {
-			console.log("Converting text to embeddings using Xenova/transformers");
-
-			const result = await embeddingService.textToEmbeddings(text);
-			return result.embeddings;
-		} catch (error) {
-			console.error("Failed to generate embeddings:", error);
-			throw new Error(
-				`Failed to generate embeddings: ${error instanceof Error ? error.message : "Unknown error"}`,
+			console.log(
+				`Listing memories sorted by ${data.sort} ${data.order}, limit ${data.limit}`,
 			);
-		}
-	}
 
-	/**
+			if (data.collection) {
+				await this.requireCollection(data.collection);
+			}
+
+			const direction = data.order === "asc" ? 1 : -1;
+			const sortKey = (memory: MemoryResult): number => {
+				if (data.sort === "importance") {
+					return Number(memory.metadata?.importance) || 0;
+				}
+				return Date.parse(String(memory.metadata?.createdAt)) || 0;
+			};
+			const compare = (a: [number, number], b: [number, number]) =>
+				direction * (a[0] - b[0]) || direction * (a[1] - b[1]);
+
+			const after = data.cursor ? decodeCursor(data.cursor) : undefined;
+			const state = await this.getMemoryState();
+
+			// The page plus the next memory, which tells whether another page follows
+			const page: Array<{ memory: MemoryResult; position: [number, number] }> =
+				[];
+			let total = 0;
+
+			for await (const vector of this.vectorStore.scanVectors()) {
+				// Passages of long memories are represented by their parent
+				if (typeof vector.metadata?.parentId === "number") {
+					continue;
+				}
+
+				const [memory] = this.selectVisible(
+					[{ id: vector.id, metadata: vector.metadata }],
+					state,
+					data,
+				);
+				if (!memory) {
+					continue;
+				}
+				total++;
+
+				const position: [number, number] = [sortKey(memory), memory.id];
+				if (after && compare(position, after) <= 0) {
+					continue;
+				}
+
+				const index = page.findIndex(
+					(entry) => compare(position, entry.position) < 0,
+				);
+				if (index === -1) {
+					if (page.length <= data.limit) {
+						page.push({ memory, position });
+					}
+					continue;
+				}
+				page.splice(index, 0, { memory, position });
+				if (page.length > data.limit + 1) {
+					page.pop();
+				}
+			}
+
+			return {
+				memories: page.slice(0, data.limit).map(({ memory }) => memory),
+				total,
+				nextCursor:
+					page.length > data.limit
+						? encodeCursor(page[data.limit - 1].position)
+						: null,
+			};
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error("Failed to list memories:", error);
+			throw new Error(
+				`Failed to list memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Lists every tag in use with the number of memories carrying it
+	 *
+	 * Only the latest version of each memory counts.
+	 *
+	 * @param options.collection - Only count memories in this collection
+	 * @returns Promise resolving to tags ordered by descending count, then name
+	 *
+	 * @throws {HttpError} 404 when the collection does not exist
+	 * @throws {Error} When scanning the contract fails
+	 */
+	async listTags(options: { collection?: string } = {}): Promise<TagCount[]> {
+		try {
+			if (options.collection) {
+				await this.requireCollection(options.collection);
+			}
+
+			const memories = await this.loadVisibleMemories({
+				include_history: false,
+				collection: options.collection,
+			});
+			const counts = this.countFacets(memories, ["tags"]).tags ?? {};
+
+			return Object.entries(counts)
+				.map(([tag, count]) => ({ tag, count }))
+				.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error("Failed to list tags:", error);
+			throw new Error(
+				`Failed to list tags: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Renames or merges tags across every memory of the tenant
+	 *
+	 * Each memory carrying one of the `from` tags gets a new version (see
+	 * `updateMemory`) whose tags have them replaced by `to`, without
+	 * duplicates. Memories are updated one by one; a failure only affects
+	 * the memory it concerns.
+	 *
+	 * @param data - Tags to replace, replacement and optional collection
+	 * @returns Promise resolving to the new versions and the failures
+	 *
+	 * @throws {HttpError} 404 when the collection does not exist
+	 * @throws {Error} When scanning the contract fails
+	 *
+	 * @example
+	 * ```typescript
+	 * await memoryService.renameTags({ from: ["prefs", "preferences"], to: "preference" });
+	 * ```
+	 */
+	async renameTags(data: RenameTags): Promise<RenameTagsResult> {
+		try {
+			console.log(`Renaming tags ${data.from.join(", ")} to ${data.to}`);
+			await assertMemoriesWritable(this.vectorStore.getContractId());
+
+			if (data.collection) {
+				await this.requireCollection(data.collection);
+			}
+
+			const memories = await this.loadVisibleMemories({
+				include_history: false,
+				collection: data.collection,
+			});
+
+			const result: RenameTagsResult = {
+				updatedMemories: 0,
+				updates: [],
+				failed: [],
+			};
+
+			for (const memory of memories) {
+				const tags = Array.isArray(memory.metadata?.tags)
+					? (memory.metadata.tags as string[])
+					: [];
+				if (!tags.some((tag) => data.from.includes(tag))) {
+					continue;
+				}
+
+				const renamed = [
+					...new Set(
+						tags.map((tag) => (data.from.includes(tag) ? data.to : tag)),
+					),
+				];
+
+				try {
+					const update = await this.updateMemory(
+						memory.id,
+						{ metadata: { tags: renamed } },
+						{ merge: true },
+					);
+					if (update) {
+						result.updatedMemories++;
+						result.updates.push({
+							previousMemoryId: memory.id,
+							memoryId: update.memoryId,
+						});
+					}
+				} catch (error) {
+					result.failed.push({
+						memoryId: memory.id,
+						error: error instanceof Error ? error.message : "Unknown error",
+					});
+				}
+			}
+
+			console.log(
+				`Tag rename complete: ${result.updatedMemories} updated, ${result.failed.length} failed`,
+			);
+
+			return result;
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error("Failed to rename tags:", error);
+			throw new Error(
+				`Failed to rename tags: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Streams every memory matching the filters, in storage order
+	 *
+	 * Memories are read from the contract one at a time and yielded as soon
+	 * as they pass the visibility rules and filters, so the full set is never
+	 * held in memory. Used for backups, moving tenants between environments
+	 * and data-portability requests.
+	 *
+	 * The returned promise settles once the request has been checked (e.g. the
+	 * collection exists), before any memory is read, so callers can still
+	 * report errors before they start streaming.
+	 *
+	 * @param options - Filters, history visibility, collection and whether to include vectors
+	 * @returns Promise resolving to an async generator of export records
+	 *
+	 * @throws {HttpError} 404 when the collection does not exist
+	 * @throws {Error} When scanning the contract fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const memories = await memoryService.exportMemories({ include_history: false, include_vectors: false });
+	 * for await (const memory of memories) {
+	 *   stream.write(`${JSON.stringify(memory)}\n`);
+	 * }
+	 * ```
+	 */
+	async exportMemories(
+		options: ExportMemories,
+	): Promise<AsyncGenerator<ExportedMemory>> {
+		console.log(`Exporting memories from ${this.vectorStore.getContractId()}`);
+
+		if (options.collection) {
+			await this.requireCollection(options.collection);
+		}
+
+		const state = await this.getMemoryState();
+		return this.streamExport(state, options);
+	}
+
+	/**
+	 * Deletes a collection of the tenant
+	 *
+	 * A collection that still holds memories is only deleted together with
+	 * them, and only when asked to; its memories (every version) are then
+	 * tombstoned like DELETE /memories/:id does.
+	 *
+	 * @param name - Collection name
+	 * @param options.deleteMemories - Also delete the memories in the collection
+	 * @returns Promise resolving to the number of deleted memories, or null if
+	 * the collection does not exist
+	 *
+	 * @throws {HttpError} 409 when the collection is not empty and deleteMemories is false
+	 * @throws {Error} When scanning the contract or writing tombstones fails
+	 */
+	async deleteCollection(
+		name: string,
+		options: { deleteMemories: boolean },
+	): Promise<{ deletedMemories: number } | null> {
+		try {
+			const userId = this.requireUserId();
+			if (!(await getMemoryCollection(userId, name))) {
+				return null;
+			}
+			await assertMemoriesWritable(this.vectorStore.getContractId());
+
+			const { deletedIds } = await this.getMemoryState();
+			const memoryIds: number[] = [];
+			for await (const vector of this.vectorStore.scanVectors()) {
+				if (
+					vector.metadata?.collection === name &&
+					!deletedIds.has(vector.id)
+				) {
+					memoryIds.push(vector.id);
+				}
+			}
+
+			if (memoryIds.length > 0 && !options.deleteMemories) {
+				throw new httpErrors.Conflict(
+					`Collection "${name}" still holds ${memoryIds.length} memory versions; delete them with the collection or move them first`,
+				);
+			}
+
+			for (const memoryId of memoryIds) {
+				await createMemoryTombstone(this.vectorStore.getContractId(), memoryId);
+			}
+			await deleteMemoryCollection(userId, name);
+
+			console.log(
+				`Collection "${name}" deleted with ${memoryIds.length} memory versions`,
+			);
+
+			return { deletedMemories: memoryIds.length };
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error(`Failed to delete collection ${name}:`, error);
+			throw new Error(
+				`Failed to delete collection: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+	/**
+	 * Retrieves a specific memory by its unique identifier
+	 *
+	 * Used when user have a memory ID and need to fetch its full content
+	 * and metadata. Unlike search, this is a direct lookup operation.
+	 *
+	 * @param memoryId - The unique ID of the memory to retrieve
+	 * @returns Promise resolving to memory data or null if not found or deleted
+	 *
+	 * @throws {Error} When retrieval operation fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const memory = await memoryService.getMemory(123);
+	 * if (memory) {
+	 *   console.log(`Memory content: ${memory.content}`);
+	 * }
+	 * ```
+	 */
+	async getMemory(memoryId: number): Promise<MemoryResult | null> {
+		try {
+			console.log(`Retrieving memory with ID: ${memoryId}`);
+
+			// Deleted memories are still in the contract but must not be served
+			const { deletedIds, supersededBy } = await this.getMemoryState();
+			if (deletedIds.has(memoryId)) {
+				return null;
+			}
+
+			// Direct lookup in Eizen by vector ID
+			const vector = await this.vectorStore.getVector(memoryId);
+
+			// Passages of long memories are internal; only their parent is a memory
+			if (!vector || typeof vector.metadata?.parentId === "number") {
+				return null;
+			}
+
+			// Expired memories are hidden right away, before the sweeper tombstones them
+			if (this.isExpired(vector.metadata, Date.now())) {
+				return null;
+			}
+
+			// Transform Eizen vector into our memory format
+			return {
+				id: memoryId,
+				content: (vector.metadata?.content as string) || undefined,
+				metadata: vector.metadata,
+				supersededBy: supersededBy.get(memoryId),
+			};
+		} catch (error) {
+			console.error(`Failed to retrieve memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to retrieve memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Updates a memory by storing a new version that supersedes it
+	 *
+	 * The Arweave backing store is append-only, so an update never modifies
+	 * the existing vector. Instead the (possibly unchanged) content is
+	 * re-embedded and inserted as a new vector whose metadata points back to
+	 * the previous version via `supersedes` and carries an incremented
+	 * `version`. The old version is then hidden from default searches.
+	 *
+	 * @param memoryId - ID of the version being updated (must be the latest)
+	 * @param data - New content and/or metadata
+	 * @param options.merge - When true (PATCH), missing content and metadata
+	 * fields are carried over from the previous version. When false (PUT),
+	 * the request fully replaces the previous version.
+	 * @returns Promise resolving to the new version, or null if the memory does not exist
+	 *
+	 * @throws {HttpError} 409 when the memory has already been superseded
+	 * @throws {Error} When embedding generation or storage fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await memoryService.updateMemory(
+	 *   42,
+	 *   { metadata: { importance: 9 } },
+	 *   { merge: true },
+	 * );
+	 * console.log(`Version ${result?.version} stored as ${result?.memoryId}`);
+	 * ```
+	 */
+	async updateMemory(
+		memoryId: number,
+		data: PatchMemory,
+		options: { merge: boolean } = { merge: false },
+	): Promise<UpdateMemoryResult | null> {
+		try {
+			console.log(`Updating memory with ID: ${memoryId}`);
+			await assertMemoriesWritable(this.vectorStore.getContractId());
+
+			const previous = await this.getMemory(memoryId);
+			if (!previous) {
+				return null;
+			}
+
+			// Only the latest version can be updated, otherwise the history would fork
+			if (previous.supersededBy !== undefined) {
+				throw new httpErrors.Conflict(
+					`Memory ${memoryId} has been superseded by ${previous.supersededBy}; update the latest version instead`,
+				);
+			}
+
+			const content = data.content ?? previous.content;
+			if (!content) {
+				throw new httpErrors.BadRequest(
+					`Memory ${memoryId} has no stored content; provide content to update it`,
+				);
+			}
+
+			const previousMetadata = this.getUserMetadata(previous.metadata);
+			const version = ((previous.metadata?.version as number) || 1) + 1;
+
+			// Re-embed so the new version is searchable by its current content
+			const { passages, embeddings } = await this.embedContent(content);
+
+			const metadata: VectorMetadata = {
+				...(options.merge ? previousMetadata : {}),
+				...this.resolveExpiry(data.metadata),
+				...(previous.metadata?.collection !== undefined && {
+					collection: previous.metadata.collection,
+				}),
+				content,
+				version,
+				supersedes: memoryId,
+				createdAt: new Date().toISOString(),
+			};
+			const result = await this.insertMemory(metadata, passages, embeddings);
+
+			const linked = await createMemoryRevision(
+				this.vectorStore.getContractId(),
+				memoryId,
+				result.vectorId,
+			);
+
+			// A concurrent update won the race; retract our version so the chain stays linear
+			if (!linked) {
+				await createMemoryTombstone(
+					this.vectorStore.getContractId(),
+					result.vectorId,
+				);
+				throw new httpErrors.Conflict(
+					`Memory ${memoryId} was updated concurrently; fetch the latest version and retry`,
+				);
+			}
+
+			console.log(
+				`Memory ${memoryId} superseded by version ${version} with ID: ${result.vectorId}`,
+			);
+
+			return {
+				success: true,
+				memoryId: result.vectorId,
+				previousMemoryId: memoryId,
+				version,
+				message: `Memory updated to version ${version}`,
+			};
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error(`Failed to update memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to update memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Lists every version of a memory, newest first
+	 *
+	 * Walks forward to the latest version using the revision records, then
+	 * follows the `supersedes` links stored in each version's metadata back
+	 * to the original. Deleted versions are skipped.
+	 *
+	 * @param memoryId - ID of any version in the chain
+	 * @returns Promise resolving to the version chain, or null if the memory does not exist
+	 *
+	 * @throws {Error} When retrieval fails
+	 */
+	async getMemoryHistory(memoryId: number): Promise<MemoryResult[] | null> {
+		try {
+			console.log(`Retrieving version history for memory ${memoryId}`);
+
+			const { deletedIds, supersededBy } = await this.getMemoryState();
+			if (deletedIds.has(memoryId)) {
+				return null;
+			}
+
+			// Find the head of the chain
+			let latestId = memoryId;
+			const seen = new Set<number>([latestId]);
+			let nextId = supersededBy.get(latestId);
+			while (nextId !== undefined && !seen.has(nextId)) {
+				latestId = nextId;
+				seen.add(latestId);
+				nextId = supersededBy.get(latestId);
+			}
+
+			// Walk back to the first version
+			const history: MemoryResult[] = [];
+			const visited = new Set<number>();
+			let currentId: number | undefined = latestId;
+			while (currentId !== undefined && !visited.has(currentId)) {
+				visited.add(currentId);
+
+				const vector = await this.vectorStore.getVector(currentId);
+				if (!vector) {
+					break;
+				}
+
+				if (!deletedIds.has(currentId)) {
+					history.push({
+						id: currentId,
+						content: (vector.metadata?.content as string) || undefined,
+						metadata: vector.metadata,
+						supersededBy: supersededBy.get(currentId),
+					});
+				}
+
+				currentId = vector.metadata?.supersedes as number | undefined;
+			}
+
+			return history.length > 0 ? history : null;
+		} catch (error) {
+			console.error(
+				`Failed to retrieve history for memory ${memoryId}:`,
+				error,
+			);
+			throw new Error(
+				`Failed to retrieve memory history: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Deletes a memory by writing a tombstone for its vector ID
+	 *
+	 * Eizen contracts are append-only, so the vector itself stays in the
+	 * contract. The tombstone hides it from `searchMemories` and `getMemory`
+	 * until a hard purge rebuilds the index without it.
+	 *
+	 * @param memoryId - The unique ID of the memory to delete
+	 * @returns Promise resolving to true if the memory was deleted, false if it
+	 * does not exist or was already deleted
+	 *
+	 * @throws {Error} When the lookup or tombstone write fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const deleted = await memoryService.deleteMemory(123);
+	 * ```
+	 */
+	async deleteMemory(memoryId: number): Promise<boolean> {
+		try {
+			console.log(`Deleting memory with ID: ${memoryId}`);
+			await assertMemoriesWritable(this.vectorStore.getContractId());
+
+			const memory = await this.getMemory(memoryId);
+			if (!memory) {
+				return false;
+			}
+
+			return await createMemoryTombstone(
+				this.vectorStore.getContractId(),
+				memoryId,
+			);
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error(`Failed to delete memory ${memoryId}:`, error);
+			throw new Error(
+				`Failed to delete memory: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Permanently removes deleted memories by rebuilding the index
+	 *
+	 * Process:
+	 * 1. Blocks writes to the contract (see `assertMemoriesWritable`)
+	 * 2. Creates a fresh vector store on the same backend (a new Eizen contract
+	 *    for Eizen tenants)
+	 * 3. Copies every memory that has no tombstone into the new contract,
+	 *    including writes that were already in flight
+	 * 4. Points the tenant's API key and queued writes at the new contract
+	 * 5. Clears what was recorded for the old contract and drops it from the
+	 *    caches of this process
+	 *
+	 * Memory IDs are reassigned in the new contract. The old contract keeps
+	 * refusing writes, so requests still bound to it retry on the new one.
+	 * The purge holds a lease that is renewed while it runs; if the lease
+	 * lapses anyway (writes may have resumed), the tenant keeps the old
+	 * contract and the purge fails.
+	 *
+	 * @returns Promise resolving to the new contract ID and copy statistics
+	 *
+	 * @throws {HttpError} 409 when the contract is already being purged
+	 * @throws {Error} When deployment or copying fails
+	 */
+	async purgeDeletedMemories(): Promise<PurgeMemoriesResult> {
+		const previousContractId = this.vectorStore.getContractId();
+		const holder = randomUUID();
+		const lease = new AbortController();
+		let renewal: NodeJS.Timeout | undefined;
+		let started = false;
+		let replaced = false;
+
+		try {
+			started = await startMemoryPurge(
+				previousContractId,
+				holder,
+				PURGE_TIMEOUT_MS,
+			);
+			if (!started) {
+				throw new httpErrors.Conflict(
+					"These memories are already being purged or were purged",
+				);
+			}
+
+			console.log(`Purging deleted memories from ${previousContractId}`);
+
+			renewal = setInterval(() => {
+				renewMemoryPurge(previousContractId, holder, PURGE_TIMEOUT_MS)
+					.then((renewed) => {
+						if (!renewed) {
+							lease.abort(new Error("The purge lease expired"));
+						}
+					})
+					.catch((error) => {
+						// Retried on the next tick; the lease outlasts a few failed renewals
+						console.warn("Failed to renew memory purge lease:", error);
+					});
+			}, PURGE_RENEW_MS);
+			renewal.unref();
+
+			const { deletedIds } = await this.getMemoryState();
+			const { contractId } = await deployVectorStore(
+				getVectorStoreKind(previousContractId),
+			);
+
+			// IDs are reassigned in the new contract, so version links are remapped as we copy
+			const newIds = new Map<number, number>();
+			const purgedMemories = await withVectorStore(contractId, (target) =>
+				this.copyMemories(target, deletedIds, newIds, lease.signal),
+			);
+
+			// Deletes and updates made while copying are carried over too
+			const state = await this.getMemoryState();
+			for (const vectorId of state.deletedIds) {
+				const newVectorId = newIds.get(vectorId);
+				if (!deletedIds.has(vectorId) && newVectorId !== undefined) {
+					await createMemoryTombstone(contractId, newVectorId);
+				}
+			}
+			for (const [vectorId, replacementId] of state.supersededBy) {
+				const newVectorId = newIds.get(vectorId);
+				const newReplacementId = newIds.get(replacementId);
+				if (newVectorId !== undefined && newReplacementId !== undefined) {
+					await createMemoryRevision(contractId, newVectorId, newReplacementId);
+				}
+			}
+
+			// Hand the tenant over, unless the lease lapsed and writes may have resumed
+			replaced = await completeMemoryPurge(
+				previousContractId,
+				holder,
+				contractId,
+				this.userId,
+			);
+			if (!replaced) {
+				throw new Error(
+					"The purge lease expired before the copy finished; the tenant keeps its current contract",
+				);
+			}
+
+			const redirectedJobs = await redirectMemoryWriteJobs(
+				previousContractId,
+				contractId,
+			);
+			writeOverlay.move(previousContractId, contractId);
+
+			await deleteMemoryTombstones(previousContractId);
+			await deleteMemoryRevisions(previousContractId);
+			await deleteMemoryExpiries(previousContractId);
+			await invalidateVectorStore(previousContractId);
+			lexicalIndexRegistry.invalidate(previousContractId);
+
+			console.log(
+				`Purge complete: kept ${newIds.size}, purged ${purgedMemories} memories into ${contractId}, redirected ${redirectedJobs} queued writes`,
+			);
+
+			return {
+				previousContractId,
+				contractId,
+				keptMemories: newIds.size,
+				purgedMemories,
+			};
+		} catch (error) {
+			// Let writes resume on the old contract, which is still the tenant's
+			if (started && !replaced) {
+				await abortMemoryPurge(previousContractId, holder).catch((abortError) =>
+					console.error("Failed to abort memory purge:", abortError),
+				);
+			}
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error("Failed to purge deleted memories:", error);
+			throw new Error(
+				`Failed to purge deleted memories: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			clearInterval(renewal);
+		}
+	}
+
+	/**
+	 * Rebuilds the tenant's keyword index from the contract contents
+	 *
+	 * The index is normally built on the first keyword/hybrid search and
+	 * catches up with new writes on every search; this forces a full rescan
+	 * of the contract.
+	 *
+	 * @returns Promise resolving to the number of indexed memories
+	 *
+	 * @throws {Error} When scanning the contract fails
+	 */
+	async rebuildKeywordIndex(): Promise<{ indexedMemories: number }> {
+		try {
+			const index = await lexicalIndexRegistry.rebuild(this.vectorStore);
+			return { indexedMemories: index.size };
+		} catch (error) {
+			console.error("Failed to rebuild keyword index:", error);
+			throw new Error(
+				`Failed to rebuild keyword index: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Retrieves system statistics and health information
+	 *
+	 * Useful for monitoring, debugging, and displaying system status
+	 * to users. Aggregates data from both Eizen and embedding services.
+	 *
+	 * @returns Promise resolving to current system statistics
+	 *
+	 * @example
+	 * ```typescript
+	 * const stats = await memoryService.getStats();
+	 * console.log(`Total memories: ${stats.totalMemories}`);
+	 * console.log(`System ready: ${stats.isInitialized}`);
+	 * ```
+	 *
+	 * @TODO Need further work (Probably wrote it in diff file)
+	 */
+	async getStats(): Promise<MemoryStats> {
+		try {
+			const eizenStats = await this.vectorStore.getStats();
+			const embeddingInfo = embeddingService.getInfo();
+
+			return {
+				totalMemories: eizenStats.totalVectors,
+				embeddingService: embeddingInfo.isInitialized
+					? "xenova"
+					: "unavailable",
+				isInitialized: eizenStats.isInitialized && embeddingInfo.isInitialized,
+			};
+		} catch (error) {
+			console.error("Failed to get memory stats:", error);
+			return {
+				totalMemories: 0,
+				embeddingService: "unavailable",
+				isInitialized: false,
+			};
+		}
+	}
+
+	// ============================================================================
+	// Internal Helper Functions
+	// These methods support the main public API but are not intended to be used
+	// directly by external callers.
+	// ============================================================================
+
+	/**
+	 * Converts text content into numerical vector embeddings
+	 *
+	 * This is the core ML operation that enables semantic search.
+	 * Uses transformer models (via Xenova) to create high-dimensional
+	 * vectors that capture semantic meaning of text.
+	 *
+	 * @private This is an internal helper method
+	 * @param text - The text content to vectorize
+	 * @returns Promise resolving to numerical embedding array
+	 *
+	 * @throws {Error} When embedding generation fails
+	 */
+	private async textToEmbeddings(text: string): Promise<number[]> {
+		try {
+			console.log("Converting text to embeddings using Xenova/transformers");
+
+			const result = await embeddingService.textToEmbeddings(text);
+			return result.embeddings;
+		} catch (error) {
+			console.error("Failed to generate embeddings:", error);
+			throw new Error(
+				`Failed to generate embeddings: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	/**
+	 * Splits memory content into passages and embeds each of them
+	 *
+	 * Content within MEMORY_CHUNK_TOKENS yields a single passage, the content
+	 * itself.
+	 *
+	 * @private This is an internal helper method
+	 * @param content - The memory content
+	 * @returns Promise resolving to the passages and their embeddings, in order
+	 *
+	 * @throws {Error} When chunking or embedding generation fails
+	 */
+	private async embedContent(
+		content: string,
+	): Promise<{ passages: string[]; embeddings: number[][] }> {
+		const passages = await embeddingService.chunkText(
+			content,
+			CHUNK_TOKENS,
+			CHUNK_OVERLAP_TOKENS,
+		);
+		if (passages.length > 1) {
+			console.log(`Split content into ${passages.length} passages`);
+		}
+
+		return { passages, embeddings: await this.embedPassages(passages) };
+	}
+
+	/**
+	 * Embeds passages in batches of MEMORY_EMBEDDING_BATCH_SIZE
+	 *
+	 * @private This is an internal helper method
+	 * @param passages - Texts to embed
+	 * @returns Promise resolving to one embedding per passage, in order
+	 */
+	private async embedPassages(passages: string[]): Promise<number[][]> {
+		const embeddings: number[][] = [];
+		for (
+			let start = 0;
+			start < passages.length;
+			start += EMBEDDING_BATCH_SIZE
+		) {
+			const embedded = await embeddingService.batchTextToEmbeddings(
+				passages.slice(start, start + EMBEDDING_BATCH_SIZE),
+			);
+			embeddings.push(...embedded.map((result) => result.embeddings));
+		}
+		return embeddings;
+	}
+
+	/**
+	 * Writes a memory and its passages to Eizen
+	 *
+	 * The memory itself is stored with the embedding of its first passage and
+	 * the full content; every further passage becomes a child vector pointing
+	 * back to it through `parentId`. Only the memory is keyword-indexed.
+	 *
+	 * @private This is an internal helper method
+	 * @param metadata - Full metadata of the memory, including content
+	 * @param passages - The content split into passages
+	 * @param embeddings - Embedding of each passage
+	 * @returns Promise resolving to the insert result of the memory vector
+	 */
+	private async insertMemory(
+		metadata: VectorMetadata,
+		passages: string[],
+		embeddings: number[][],
+	): Promise<{ vectorId: number }> {
+		const chunked = passages.length > 1;
+		const memoryMetadata: VectorMetadata = chunked
+			? { ...metadata, chunkCount: passages.length, passage: passages[0] }
+			: metadata;
+
+		const result = await this.vectorStore.insertVector({
+			vector: embeddings[0], // currently API received content == vector // metadata != vector
+			metadata: memoryMetadata,
+		});
+
+		for (let chunkIndex = 1; chunkIndex < passages.length; chunkIndex++) {
+			await this.vectorStore.insertVector({
+				vector: embeddings[chunkIndex],
+				metadata: {
+					parentId: result.vectorId,
+					chunkIndex,
+					passage: passages[chunkIndex],
+				},
+			});
+		}
+
+		await this.recordExpiry(result.vectorId, memoryMetadata);
+
+		return result;
+	}
+
+	/**
+	 * Copies the memories of this contract into the target of a purge
+	 *
+	 * Writes that passed `assertMemoriesWritable` before the purge started can
+	 * still land while copying, so the contract is scanned again from where
+	 * the previous pass stopped until it stays unchanged for PURGE_SETTLE_MS.
+	 *
+	 * @private This is an internal helper method
+	 * @param target - Store of the new contract
+	 * @param deletedIds - Memories to leave out
+	 * @param newIds - Filled with the new ID of every copied memory
+	 * @param signal - Aborted when the purge loses its lease
+	 * @returns Promise resolving to the number of memories left out
+	 */
+	private async copyMemories(
+		target: VectorStore,
+		deletedIds: Set<number>,
+		newIds: Map<number, number>,
+		signal: AbortSignal,
+	): Promise<number> {
+		let purgedMemories = 0;
+		let scannedUpTo = 0;
+		let settled = false;
+
+		for (;;) {
+			const count = await this.vectorStore.getVectorCount();
+			if (count <= scannedUpTo) {
+				if (settled) {
+					return purgedMemories;
+				}
+				await new Promise((resolve) => setTimeout(resolve, PURGE_SETTLE_MS));
+				settled = true;
+				continue;
+			}
+			settled = false;
+
+			for await (const vector of this.vectorStore.scanVectors(scannedUpTo)) {
+				signal.throwIfAborted();
+				scannedUpTo = Math.max(scannedUpTo, vector.id + 1);
+
+				const parentId = vector.metadata?.parentId;
+
+				// Passages go with their parent memory
+				if (typeof parentId === "number") {
+					if (!deletedIds.has(parentId) && newIds.has(parentId)) {
+						await target.insertVector({
+							vector: vector.point,
+							metadata: { ...vector.metadata, parentId: newIds.get(parentId) },
+						});
+					}
+					continue;
+				}
+
+				if (deletedIds.has(vector.id)) {
+					purgedMemories++;
+					continue;
+				}
+
+				const metadata = { ...vector.metadata };
+				if (typeof metadata.supersedes === "number") {
+					metadata.supersedes = newIds.get(metadata.supersedes);
+				}
+
+				const result = await target.insertVector({
+					vector: vector.point,
+					metadata,
+				});
+				newIds.set(vector.id, result.vectorId);
+				await this.recordExpiry(
+					result.vectorId,
+					metadata,
+					target.getContractId(),
+				);
+			}
+			// Deleted vectors at the end aren't yielded but were still scanned
+			scannedUpTo = Math.max(scannedUpTo, count);
+		}
+	}
+
+	/**
+	 * Schedules a memory with an `expires_at` for the expiry sweeper
+	 *
+	 * @private This is an internal helper method
+	 * @param vectorId - Vector ID of the memory
+	 * @param metadata - Stored metadata of the memory
+	 * @param contractId - Contract the memory lives in (default: this service's)
+	 */
+	private async recordExpiry(
+		vectorId: number,
+		metadata: VectorMetadata,
+		contractId = this.vectorStore.getContractId(),
+	): Promise<void> {
+		const expiresAt =
+			typeof metadata?.expires_at === "string"
+				? new Date(metadata.expires_at)
+				: null;
+		if (expiresAt && !Number.isNaN(expiresAt.getTime())) {
+			await createMemoryExpiry(contractId, vectorId, expiresAt);
+		}
+	}
+
+	/**
+	 * Maps passage hits of long memories onto their parent memory
+	 *
+	 * A memory is kept once, at the rank and distance of its best-matching
+	 * passage, which is returned as `passage`. Hits on ordinary memories pass
+	 * through unchanged.
+	 *
+	 * @private This is an internal helper method
+	 * @param hits - Raw kNN hits, closest first
+	 * @param parents - Metadata of parent memories already at hand, by vector ID
+	 * @returns Promise resolving to one hit per memory, closest first
+	 */
+	private async collapsePassages(
+		hits: Array<{ id: number; distance: number; metadata?: VectorMetadata }>,
+		parents = new Map<number, VectorMetadata | undefined>(),
+	): Promise<Array<Omit<MemoryResult, "content" | "supersededBy">>> {
+		const collapsed = new Map<
+			number,
+			Omit<MemoryResult, "content" | "supersededBy">
+		>();
+
+		for (const hit of hits) {
+			const parentId = hit.metadata?.parentId;
+			const id = typeof parentId === "number" ? parentId : hit.id;
+			if (collapsed.has(id)) {
+				continue;
+			}
+
+			let metadata = hit.metadata;
+			if (id !== hit.id) {
+				if (!parents.has(id)) {
+					parents.set(id, (await this.vectorStore.getVector(id))?.metadata);
+				}
+				metadata = parents.get(id);
+				if (!metadata) {
+					continue;
+				}
+			}
+
+			collapsed.set(id, {
+				id,
+				distance: hit.distance,
+				metadata,
+				...(typeof hit.metadata?.passage === "string" && {
+					passage: hit.metadata.passage,
+				}),
+			});
+		}
+
+		return [...collapsed.values()];
+	}
+
+	/**
+	 * Runs a kNN search that adaptively over-fetches until enough memories pass filtering
+	 *
+	 * Filters and visibility rules (deleted/superseded versions) are applied
+	 * after the HNSW search, so asking Eizen for exactly `k` neighbours often
+	 * leaves fewer than `k` results. This doubles the candidate count until
+	 * `k` memories survive, the index has been exhausted, or the
+	 * MEMORY_SEARCH_MAX_CANDIDATES ceiling is reached. Passage hits of long
+	 * memories are collapsed into their parent memory.
+	 *
+	 * Exact searches, and every search of a contract holding at most
+	 * MEMORY_EXACT_SEARCH_MAX_VECTORS vectors, skip HNSW (see `searchExact`).
+	 *
+	 * @private This is an internal helper method
+	 * @param query - Query embedding
+	 * @param k - Number of memories wanted after filtering
+	 * @param options - Filters, history visibility, minimum score and whether to search exactly
+	 * @returns Up to k visible memories ordered by distance
+	 */
+	private async searchCandidates(
+		query: number[],
+		k: number,
+		options: Pick<
+			SearchMemory,
+			"filters" | "include_history" | "min_score" | "collection"
+		> & { exact?: boolean },
+	): Promise<CandidateSet> {
+		if (
+			options.exact ||
+			(EXACT_SEARCH_MAX_VECTORS > 0 &&
+				(await this.vectorStore.getVectorCount()) <= EXACT_SEARCH_MAX_VECTORS)
+		) {
+			return this.searchExact(query, k, options);
+		}
+
+		const state = await this.getMemoryState();
+		const ceiling = Math.max(k, MAX_SEARCH_CANDIDATES);
+
+		let candidates = k;
+		while (true) {
+			const searchResults = await this.vectorStore.searchVectors({
+				query,
+				k: candidates,
+			});
+
+			const filteredMemories = this.selectVisible(
+				await this.collapsePassages(searchResults),
+				state,
+				options,
+			).filter(
+				(memory) =>
+					options.min_score === undefined ||
+					this.distanceToScore(memory.distance ?? 2) >= options.min_score,
+			);
+
+			// Fewer neighbours than requested means every stored vector was considered.
+			// Results come back closest first, so once the farthest one is below
+			// min_score no further candidate can qualify either.
+			const farthest = searchResults.at(-1);
+			const exhaustive =
+				searchResults.length < candidates ||
+				(options.min_score !== undefined &&
+					farthest !== undefined &&
+					this.distanceToScore(farthest.distance) < options.min_score);
+
+			if (filteredMemories.length >= k || exhaustive || candidates >= ceiling) {
+				return {
+					memories: filteredMemories.slice(0, k),
+					exhaustive,
+					candidatesExamined: candidates,
+				};
+			}
+
+			candidates = Math.min(candidates * 2, ceiling);
+		}
+	}
+
+	/**
+	 * Finds the true nearest memories by comparing the query with every stored vector
+	 *
+	 * Scans the whole contract instead of walking the HNSW graph, so results
+	 * never miss a neighbour but cost one read per stored vector. Meant for
+	 * small contracts and for checking approximate results.
+	 *
+	 * @private This is an internal helper method
+	 * @param query - Query embedding
+	 * @param k - Number of memories wanted after filtering
+	 * @param options - Filters, history visibility, minimum score and collection
+	 * @returns Up to k visible memories ordered by distance
+	 */
+	private async searchExact(
+		query: number[],
+		k: number,
+		options: Pick<
+			SearchMemory,
+			"filters" | "include_history" | "min_score" | "collection"
+		>,
+	): Promise<CandidateSet> {
+		const state = await this.getMemoryState();
+		const vectors: Array<{ id: number } & StoredVector> = [];
+		const metadataById = new Map<number, VectorMetadata | undefined>();
+
+		for await (const vector of this.vectorStore.scanVectors()) {
+			metadataById.set(vector.id, vector.metadata);
+			vectors.push(vector);
+		}
+		const hits: VectorSearchResult[] = rankByDistance(query, vectors).map(
+			({ id, distance, metadata }) => ({ id, distance, metadata }),
+		);
+
+		const memories = this.selectVisible(
+			await this.collapsePassages(hits, metadataById),
+			state,
+			options,
+		).filter(
+			(memory) =>
+				options.min_score === undefined ||
+				this.distanceToScore(memory.distance ?? 2) >= options.min_score,
+		);
+
+		return {
+			memories: memories.slice(0, k),
+			exhaustive: true,
+			candidatesExamined: hits.length,
+		};
+	}
+
+	/**
+	 * Runs a BM25 keyword search over the tenant's lexical index
+	 *
+	 * Every indexed memory is scored, so keyword results are always exhaustive.
+	 * With min_score, matches are scored against the query embedding before
+	 * the list is cut to k, so weak matches don't take the place of good ones.
+	 *
+	 * @private This is an internal helper method
+	 * @param query - Free-text query
+	 * @param k - Number of memories wanted after filtering
+	 * @param options - Filters, history visibility, collection and minimum score
+	 * @param queryEmbeddings - Query embedding, required to apply min_score
+	 * @returns Up to k visible memories ordered by BM25 score
+	 */
+	private async searchKeyword(
+		query: string,
+		k: number,
+		options: Pick<
+			SearchMemory,
+			"filters" | "include_history" | "collection" | "min_score"
+		>,
+		queryEmbeddings: number[] = [],
+	): Promise<CandidateSet> {
+		const [index, state] = await Promise.all([
+			lexicalIndexRegistry.forContract(this.vectorStore),
+			this.getMemoryState(),
+		]);
+
+		let memories = this.selectVisible(
+			index.search(query).map((result) => ({
+				id: result.id,
+				metadata: result.metadata,
+				keywordScore: result.score,
+			})),
+			state,
+			options,
+		);
+
+		// Score k matches at a time, in BM25 order, until k of them pass min_score
+		const minScore = options.min_score;
+		if (minScore !== undefined && queryEmbeddings.length > 0) {
+			const qualifying: MemoryResult[] = [];
+			for (
+				let start = 0;
+				start < memories.length && qualifying.length < k;
+				start += k
+			) {
+				const scored = await this.fillDistances(
+					memories.slice(start, start + k),
+					queryEmbeddings,
+				);
+				qualifying.push(
+					...scored.filter((memory) => (memory.score ?? 0) >= minScore),
+				);
+			}
+			memories = qualifying;
+		}
+
+		return {
+			memories: memories.slice(0, k),
+			exhaustive: true,
+			candidatesExamined: index.size,
+		};
+	}
+
+	/**
+	 * Merges vector and keyword rankings with reciprocal rank fusion
+	 *
+	 * Each memory scores sum(1 / (RRF_K + rank)) over the lists it appears in,
+	 * which rewards memories ranked well by both retrievers without having to
+	 * calibrate cosine distances against BM25 scores.
+	 *
+	 * @private This is an internal helper method
+	 * @param vectorMemories - Memories ranked by embedding similarity
+	 * @param keywordMemories - Memories ranked by BM25
+	 * @param k - Number of fused results to return
+	 * @returns Top k memories ordered by fusion score
+	 */
+	private fuseRankings(
+		vectorMemories: MemoryResult[],
+		keywordMemories: MemoryResult[],
+		k: number,
+	): MemoryResult[] {
+		const fused = new Map<number, MemoryResult>();
+
+		for (const ranking of [vectorMemories, keywordMemories]) {
+			ranking.forEach((memory, rank) => {
+				const existing = fused.get(memory.id);
+				const contribution = 1 / (RRF_K + rank + 1);
+				fused.set(memory.id, {
+					...existing,
+					...memory,
+					distance: memory.distance ?? existing?.distance,
+					keywordScore: memory.keywordScore ?? existing?.keywordScore,
+					fusionScore: (existing?.fusionScore ?? 0) + contribution,
+				});
+			});
+		}
+
+		return [...fused.values()]
+			.sort((a, b) => (b.fusionScore ?? 0) - (a.fusionScore ?? 0))
+			.slice(0, k);
+	}
+
+	/**
+	 * Attaches distance and normalized score to every memory
+	 *
+	 * Memories found by keyword search have no distance yet; it is computed
+	 * from their stored vectors so all results are scored on the same scale.
+	 *
+	 * @private This is an internal helper method
+	 * @param memories - Memories to score
+	 * @param query - Query embedding
+	 * @returns The same memories, in order, with `distance` and `score` set
+	 */
+	private async fillDistances(
+		memories: MemoryResult[],
+		query: number[],
+	): Promise<MemoryResult[]> {
+		return Promise.all(
+			memories.map(async (memory) => {
+				let distance = memory.distance;
+				if (distance === undefined) {
+					const vector = await this.vectorStore.getVector(memory.id);
+					distance = vector ? 1 - cosineSimilarity(query, vector.point) : 2;
+				}
+				return { ...memory, distance, score: this.distanceToScore(distance) };
+			}),
+		);
+	}
+
+	/**
+	 * Ranks queued writes of this contract against a query
+	 *
+	 * Applies the same collection, filter and min_score rules as stored
+	 * memories, so pending writes show up exactly where they will once stored.
+	 * Writes already stored by any instance are dropped first, so a memory is
+	 * never returned both as stored and as pending.
+	 *
+	 * @private This is an internal helper method
+	 * @param query - Query embedding
+	 * @param k - Maximum number of pending writes to return
+	 * @param options - Filters, minimum score and collection
+	 * @returns Promise resolving to up to k pending writes ordered by distance
+	 */
+	private async searchPending(
+		query: number[],
+		k: number,
+		options: Pick<SearchMemory, "filters" | "min_score" | "collection">,
+	): Promise<PendingMemoryResult[]> {
+		await writeOverlay.prune(this.vectorStore.getContractId());
+
+		return writeOverlay
+			.search(this.vectorStore.getContractId(), query)
+			.map((write) => ({
+				jobId: write.jobId,
+				content: write.content,
+				metadata: write.metadata,
+				distance: write.distance,
+				score: this.distanceToScore(write.distance),
+			}))
+			.filter(
+				(write) =>
+					(!options.collection ||
+						write.metadata.collection === options.collection) &&
+					(!options.filters ||
+						matchesFilter(write.metadata, options.filters)) &&
+					(options.min_score === undefined || write.score >= options.min_score),
+			)
+			.slice(0, k);
+	}
+
+	/**
+	 * Converts an Eizen cosine distance into a similarity score in [0, 1]
+	 *
+	 * @private This is an internal helper method
+	 * @param distance - Cosine distance (1 - cosine similarity)
+	 * @returns Score as documented in SEARCH_SCORING
+	 */
+	private distanceToScore(distance: number): number {
+		return Math.max(0, Math.min(1, 1 - distance));
+	}
+
+	/**
+	 * Works out the weighted ranking parameters for a search
+	 *
+	 * Request values take precedence over the tenant's saved defaults, which
+	 * take precedence over DEFAULT_RANKING. Saved defaults come from
+	 * memorySettingsCache, so searches don't read them from the database
+	 * every time.
+	 *
+	 * @private This is an internal helper method
+	 * @param requested - Ranking parameters from the search request
+	 * @returns Promise resolving to the effective parameters, or null when
+	 * weighted ranking is neither requested nor enabled for the tenant
+	 */
+	private async resolveRanking(
+		requested?: Ranking,
+	): Promise<RankingParameters | null> {
+		const settings = this.userId
+			? await memorySettingsCache.get(this.userId)
+			: undefined;
+		const { enabled, ...tenantDefaults } = settings?.ranking ?? {};
+
+		if (!requested && !enabled) {
+			return null;
+		}
+
+		return { ...DEFAULT_RANKING, ...tenantDefaults, ...requested };
+	}
+
+	/**
+	 * Orders memories by a weighted blend of similarity, recency and importance
+	 *
+	 * Components are each scaled to [0, 1] and combined as described in
+	 * RANKING_FORMULA, so the total stays in [0, 1] whatever the weights.
+	 *
+	 * @private This is an internal helper method
+	 * @param memories - Scored memories (`score` set)
+	 * @param ranking - Effective ranking parameters
+	 * @returns The memories with `ranking` set, best first
+	 */
+	private rankWeighted(
+		memories: MemoryResult[],
+		ranking: RankingParameters,
+	): MemoryResult[] {
+		const now = Date.now();
+		const totalWeight =
+			ranking.similarity + ranking.recency + ranking.importance || 1;
+
+		return memories
+			.map((memory) => {
+				const writtenAt = Date.parse(
+					String(memory.metadata?.timestamp ?? memory.metadata?.createdAt),
+				);
+				const ageHours = Number.isNaN(writtenAt)
+					? Number.POSITIVE_INFINITY
+					: Math.max(0, now - writtenAt) / 3_600_000;
+				const importance =
+					Number(memory.metadata?.importance) || DEFAULT_IMPORTANCE;
+
+				const contributions = {
+					similarity: (ranking.similarity * (memory.score ?? 0)) / totalWeight,
+					recency:
+						(ranking.recency * 0.5 ** (ageHours / ranking.half_life_hours)) /
+						totalWeight,
+					importance: (ranking.importance * (importance - 1)) / 9 / totalWeight,
+				};
+
+				return {
+					...memory,
+					ranking: {
+						...contributions,
+						total:
+							contributions.similarity +
+							contributions.recency +
+							contributions.importance,
+					},
+				};
+			})
+			.sort((a, b) => b.ranking.total - a.ranking.total);
+	}
+
+	/**
+	 * Re-ranks candidates with maximal marginal relevance (MMR)
+	 *
+	 * Uses the stored vectors from Eizen, so results stay relevant but stop
+	 * repeating the same fact (see `maximalMarginalRelevance`).
+	 *
+	 * @private This is an internal helper method
+	 * @param candidates - Relevant memories to choose from
+	 * @param query - Query embedding
+	 * @param k - Number of memories to pick
+	 * @param lambda - Relevance/diversity trade-off in [0, 1]
+	 * @returns Up to k memories in MMR selection order
+	 */
+	private async diversify(
+		candidates: MemoryResult[],
+		query: number[],
+		k: number,
+		lambda: number,
+	): Promise<MemoryResult[]> {
+		const vectors = await Promise.all(
+			candidates.map((memory) => this.vectorStore.getVector(memory.id)),
+		);
+
+		const pool = candidates
+			.map((memory, i) => ({ memory, point: vectors[i]?.point }))
+			.filter(
+				(candidate): candidate is { memory: MemoryResult; point: number[] } =>
+					candidate.point !== undefined,
+			);
+
+		return maximalMarginalRelevance(pool, query, k, lambda).map(
+			(candidate) => candidate.memory,
+		);
+	}
+
+	/**
+	 * Turns raw search hits into visible memories
+	 *
+	 * Extracts content from metadata for easier access, drops deleted and
+	 * expired memories, memories outside the requested collection and, unless
+	 * history was requested, versions that have been superseded, then applies
+	 * the caller's filters. Input order is preserved.
+	 *
+	 * @private This is an internal helper method
+	 * @param hits - Search hits with their stored metadata
+	 * @param state - Deletion and versioning state of the contract
+	 * @param options - Filters, history visibility and collection scope
+	 * @returns Visible memories that pass the filters
+	 */
+	private selectVisible(
+		hits: Array<Omit<MemoryResult, "content" | "supersededBy">>,
+		state: MemoryState,
+		options: Pick<SearchMemory, "filters" | "include_history" | "collection">,
+	): MemoryResult[] {
+		const now = Date.now();
+		const memories: MemoryResult[] = hits
+			.filter(
+				(hit) =>
+					!state.deletedIds.has(hit.id) &&
+					!this.isExpired(hit.metadata, now) &&
+					(options.include_history || !state.supersededBy.has(hit.id)) &&
+					(!options.collection ||
+						hit.metadata?.collection === options.collection),
+			)
+			.map((hit) => ({
+				...hit,
+				content: (hit.metadata?.content as string) || undefined,
+				supersededBy: state.supersededBy.get(hit.id),
+			}));
+
+		return this.applyFilters(memories, options.filters);
+	}
+
+	/**
+	 * Yields the export records of one contract scan
+	 *
+	 * @private This is an internal helper method
+	 * @param state - Deletion and versioning state of the contract
+	 * @param options - Export options, see exportMemories
+	 * @returns Async generator of export records
+	 */
+	private async *streamExport(
+		state: MemoryState,
+		options: ExportMemories,
+	): AsyncGenerator<ExportedMemory> {
+		const { model } = embeddingService.getInfo();
+
+		for await (const vector of this.vectorStore.scanVectors()) {
+			// Passages of long memories are re-created from the content on import
+			if (typeof vector.metadata?.parentId === "number") {
+				continue;
+			}
+
+			const [memory] = this.selectVisible(
+				[{ id: vector.id, metadata: vector.metadata }],
+				state,
+				options,
+			);
+			if (!memory) {
+				continue;
+			}
+
+			yield {
+				id: memory.id,
+				content: memory.content,
+				metadata: this.getUserMetadata(memory.metadata),
+				collection: memory.metadata?.collection as string | undefined,
+				createdAt: memory.metadata?.createdAt as string | undefined,
+				supersededBy: memory.supersededBy,
+				...(options.include_vectors && { vector: vector.point, model }),
+			};
+		}
+	}
+
+	/**
+	 * Ensures a collection exists for this service's tenant
+	 *
+	 * @private This is an internal helper method
+	 * @param name - Collection name
+	 *
+	 * @throws {HttpError} 404 when the tenant has no collection with that name
+	 */
+	private async requireCollection(name: string): Promise<void> {
+		const collection = await getMemoryCollection(this.requireUserId(), name);
+		if (!collection) {
+			throw new httpErrors.NotFound(`Collection "${name}" does not exist`);
+		}
+	}
+
+	/**
+	 * Returns the tenant this service was created for
+	 *
+	 * @private This is an internal helper method
+	 * @throws {Error} When the service was created without a user ID
+	 */
+	private requireUserId(): string {
+		if (!this.userId) {
+			throw new Error("Collections require a MemoryService bound to a user");
+		}
+		return this.userId;
+	}
+
+	/**
+	 * Loads every visible memory of the contract with one full scan
+	 *
+	 * @private This is an internal helper method
+	 * @param options - Filters, history visibility and collection scope
+	 * @returns Promise resolving to the visible memories in storage order
+	 */
+	private async loadVisibleMemories(
+		options: Pick<SearchMemory, "filters" | "include_history" | "collection">,
+	): Promise<MemoryResult[]> {
+		const state = await this.getMemoryState();
+		const hits: Array<{ id: number; metadata?: VectorMetadata }> = [];
+		for await (const vector of this.vectorStore.scanVectors()) {
+			// Passages of long memories are represented by their parent
+			if (typeof vector.metadata?.parentId !== "number") {
+				hits.push({ id: vector.id, metadata: vector.metadata });
+			}
+		}
+		return this.selectVisible(hits, state, options);
+	}
+
+	/**
+	 * Counts memories per tag, client and importance bucket
+	 *
+	 * @private This is an internal helper method
+	 * @param memories - Memories to count
+	 * @param facets - Facets to compute
+	 * @returns Count per value for each requested facet
+	 */
+	private countFacets(
+		memories: MemoryResult[],
+		facets: NonNullable<SearchMemory["facets"]>,
+	): SearchFacets {
+		const result: SearchFacets = {};
+		for (const facet of facets) {
+			result[facet] = {};
+		}
+
+		const increment = (facet: keyof SearchFacets, value: string): void => {
+			const counts = result[facet];
+			if (counts) {
+				counts[value] = (counts[value] ?? 0) + 1;
+			}
+		};
+
+		for (const memory of memories) {
+			const metadata = memory.metadata ?? {};
+
+			if (Array.isArray(metadata.tags)) {
+				for (const tag of new Set(metadata.tags as string[])) {
+					increment("tags", tag);
+				}
+			}
+
+			increment("client", String(metadata.client ?? "unknown"));
+
+			const importance = Number(metadata.importance);
+			const bucket = IMPORTANCE_BUCKETS.find(
+				([, lowest, highest]) => importance >= lowest && importance <= highest,
+			);
+			increment("importance", bucket ? bucket[0] : "none");
+		}
+
+		return result;
+	}
+
+	/**
+	 * Loads the deletion and versioning state of this contract's memories
+	 *
+	 * @private This is an internal helper method
+	 * @returns Promise resolving to tombstoned vector IDs and a map of
+	 * superseded vector IDs to the versions that replaced them
+	 */
+	private async getMemoryState(): Promise<MemoryState> {
+		const contractId = this.vectorStore.getContractId();
+		const [deletedIds, supersededBy] = await Promise.all([
+			listTombstonedVectorIds(contractId),
+			getSupersededVectorIds(contractId),
+		]);
+		return { deletedIds: new Set(deletedIds), supersededBy };
+	}
+
+	/**
+	 * Stores embedded content as a new memory, applying the dedupe policy first
+	 *
+	 * The nearest visible memory counts as a near-duplicate when its similarity
+	 * score reaches MEMORY_DEDUPE_THRESHOLD. Depending on the policy the content
+	 * is then rejected, merged into that memory as a new version, or inserted
+	 * anyway. Without an explicit policy and with the default "insert" policy
+	 * the nearest-neighbour check is skipped.
+	 *
+	 * @private This is an internal helper method
+	 * @param data - Memory creation parameters
+	 * @param passages - `data.content` split into passages (see embedContent)
+	 * @param embeddings - Embedding of each passage
+	 * @returns Promise resolving to the creation result and the action taken
+	 */
+	private async storeMemory(
+		data: CreateMemory,
+		passages: string[],
+		embeddings: number[][],
+	): Promise<CreateMemoryResult> {
+		if (data.collection) {
+			await this.requireCollection(data.collection);
+		}
+
+		const policy = data.dedupe ?? DEFAULT_DEDUPE_POLICY;
+		const duplicate =
+			data.dedupe !== undefined || policy !== "insert"
+				? await this.findDuplicate(embeddings[0], data.collection)
+				: null;
+
+		if (duplicate && policy === "reject") {
+			console.log(`Memory rejected as a near-duplicate of ID: ${duplicate.id}`);
+
+			return {
+				success: false,
+				memoryId: duplicate.id,
+				action: "rejected",
+				existingMemoryId: duplicate.id,
+				similarity: duplicate.score,
+				message: `Memory ${duplicate.id} already holds near-identical content`,
+			};
+		}
+
+		if (duplicate && policy === "merge") {
+			const merged = await this.updateMemory(
+				duplicate.id,
+				{ metadata: this.mergeMetadata(duplicate.metadata, data.metadata) },
+				{ merge: true },
+			);
+
+			// The duplicate may have been deleted in the meantime; store the content as new then
+			if (merged) {
+				return {
+					success: true,
+					memoryId: merged.memoryId,
+					action: "merged",
+					existingMemoryId: duplicate.id,
+					similarity: duplicate.score,
+					message: `Metadata merged into memory ${duplicate.id} as version ${merged.version}`,
+				};
+			}
+		}
+
+		// Enhance user-provided metadata with system metadata
+		// This ensures we have audit trail and content reference. More key-values can be added later
+		const metadata = this.buildMetadata(data);
+
+		const result = await this.insertMemory(metadata, passages, embeddings);
+
+		console.log(`Memory created successfully with ID: ${result.vectorId}`);
+
+		return {
+			success: true,
+			memoryId: result.vectorId,
+			action: "created",
+			...(duplicate && {
+				existingMemoryId: duplicate.id,
+				similarity: duplicate.score,
+			}),
+			message: `Memory created from ${data.content.length} characters of content`,
+		};
+	}
+
+	/**
+	 * Finds the memory most similar to the given embedding, if it is a near-duplicate
+	 *
+	 * Only memories in the same collection (or likewise in none) are considered.
+	 *
+	 * @private This is an internal helper method
+	 * @param embeddings - Embedding of the new content
+	 * @param collection - Collection the new content is stored in, if any
+	 * @returns Promise resolving to the nearest visible memory scoring at least
+	 * MEMORY_DEDUPE_THRESHOLD, or null
+	 */
+	private async findDuplicate(
+		embeddings: number[],
+		collection?: string,
+	): Promise<MemoryResult | null> {
+		const { memories } = await this.searchCandidates(embeddings, 1, {
+			include_history: false,
+			min_score: DEDUPE_THRESHOLD,
+			...(collection
+				? { collection }
+				: { filters: { not: { exists: { field: "collection" } } } }),
+		});
+
+		const nearest = memories[0];
+		if (!nearest) {
+			return null;
+		}
+
+		return { ...nearest, score: this.distanceToScore(nearest.distance ?? 2) };
+	}
+
+	/**
+	 * Combines an existing memory's metadata with the metadata of a near-duplicate
+	 *
+	 * Tags are unioned and the higher importance wins. Other fields keep the
+	 * existing value and are only filled in from the incoming metadata.
+	 *
+	 * @private This is an internal helper method
+	 * @param existing - Stored metadata of the existing memory
+	 * @param incoming - Metadata supplied with the near-duplicate
+	 * @returns User metadata for the merged version
+	 */
+	private mergeMetadata(
+		existing: VectorMetadata | undefined,
+		incoming: CreateMemory["metadata"],
+	): PatchMemory["metadata"] {
+		const current = this.getUserMetadata(existing);
+		const currentTags = Array.isArray(current.tags)
+			? (current.tags as string[])
+			: [];
+		const importances = [current.importance, incoming?.importance].filter(
+			(importance): importance is number => typeof importance === "number",
+		);
+
+		return {
+			...incoming,
+			...current,
+			tags: [...new Set([...currentTags, ...(incoming?.tags ?? [])])],
+			...(importances.length > 0 && { importance: Math.max(...importances) }),
+		};
+	}
+
+	/**
+	 * Combines client metadata with the system metadata stored on every new memory
+	 *
+	 * @private This is an internal helper method
+	 * @param data - Memory creation parameters
+	 * @returns Metadata for the first version of the memory
+	 */
+	private buildMetadata(data: CreateMemory): VectorMetadata {
+		return {
+			...this.resolveExpiry(data.metadata),
+			...(data.collection && { collection: data.collection }),
+			content: data.content,
+			version: 1,
+			createdAt: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Turns a relative `ttl_seconds` into an absolute `expires_at`
+	 *
+	 * The TTL counts from the write, so it is resolved once and only the
+	 * absolute time is stored. When both are given the earlier time wins.
+	 *
+	 * @private This is an internal helper method
+	 * @param metadata - Client metadata of a write
+	 * @returns The metadata with `ttl_seconds` folded into `expires_at`
+	 */
+	private resolveExpiry(
+		metadata?: Record<string, unknown>,
+	): Record<string, unknown> {
+		if (!metadata) {
+			return {};
+		}
+
+		const { ttl_seconds, ...rest } = metadata;
+		if (typeof ttl_seconds !== "number") {
+			return rest;
+		}
+
+		const ttlExpiry = Date.now() + ttl_seconds * 1000;
+		const givenExpiry =
+			typeof rest.expires_at === "string"
+				? Date.parse(rest.expires_at)
+				: Number.POSITIVE_INFINITY;
+
+		return {
+			...rest,
+			expires_at: new Date(Math.min(ttlExpiry, givenExpiry)).toISOString(),
+		};
+	}
+
+	/**
+	 * Checks whether a memory is past its `expires_at`
+	 *
+	 * @private This is an internal helper method
+	 * @param metadata - Stored metadata of the memory
+	 * @param now - Reference time in milliseconds
+	 * @returns True when the memory has expired
+	 */
+	private isExpired(
+		metadata: VectorMetadata | undefined,
+		now: number,
+	): boolean {
+		return (
+			typeof metadata?.expires_at === "string" &&
+			Date.parse(metadata.expires_at) <= now
+		);
+	}
+
+	/**
+	 * Strips system-managed keys from stored metadata
+	 *
+	 * @private This is an internal helper method
+	 * @param metadata - Metadata as stored in Eizen
+	 * @returns The metadata originally supplied by the API client
+	 */
+	private getUserMetadata(metadata?: VectorMetadata): Record<string, unknown> {
+		return Object.fromEntries(
+			Object.entries(metadata ?? {}).filter(
+				([key]) => !systemMetadataKeys.includes(key),
+			),
+		);
+	}
+
+	/**
 	 * Applies metadata-based filters to search results
 	 *
-	 * Filters allow users to narrow down search results based on:
-	 * - Tags (categories, labels)
-	 * - Importance level (numerical rating)
-	 * - Client/source information
+	 * Filters allow users to narrow down search results with a boolean
+	 * expression (and/or/not) over any metadata key, for example:
+	 * - Tags (all/any/none of a set)
+	 * - Importance level (numerical range)
+	 * - Client/source information (exact or substring match)
 	 * - Date ranges (creation or custom timestamps)
 	 *
 	 * @private This is an internal helper method
 	 * @param memories - Array of memory results to filter
-	 * @param filters - Optional filter criteria
+	 * @param filters - Optional filter expression
 	 * @returns Filtered array of memories
 	 */
 	private applyFilters(
@@ -344,52 +2954,8 @@ export class MemoryService {
 			return memories;
 		}
 
-		return memories.filter((memory) => {
-			// Skip filtering if memory has no metadata
-			if (!memory.metadata) return true;
-
-			// Filter by tags - check if memory has any of the requested tags
-			if (filters.tags && Array.isArray(filters.tags)) {
-				const memoryTags = (memory.metadata.tags as string[]) || [];
-				const hasRequiredTags = filters.tags.some((tag: string) =>
-					memoryTags.includes(tag),
-				);
-				if (!hasRequiredTags) return false;
-			}
-
-			// Filter by minimum importance level
-			if (
-				filters.importance_min !== undefined &&
-				filters.importance_min !== null &&
-				typeof filters.importance_min === "number"
-			) {
-				const importance = (memory.metadata.importance as number) || 0;
-				if (importance < filters.importance_min) return false;
-			}
-
-			// Filter by client - partial string matching
-			if (filters.client && typeof filters.client === "string") {
-				const client = (memory.metadata.client as string) || "";
-				if (!client.includes(filters.client)) return false;
-			}
-
-			// Filter by date range - check creation date or custom timestamp
-			if (filters.date_from || filters.date_to) {
-				const timestamp =
-					(memory.metadata.timestamp as string) ||
-					(memory.metadata.createdAt as string);
-				if (timestamp) {
-					const memoryDate = new Date(timestamp);
-					// Check if memory is after start date
-					if (filters.date_from && memoryDate < new Date(filters.date_from))
-						return false;
-					// Check if memory is before end date
-					if (filters.date_to && memoryDate > new Date(filters.date_to))
-						return false;
-				}
-			}
-
-			return true;
-		});
+		return memories.filter((memory) =>
+			matchesFilter(memory.metadata ?? {}, filters),
+		);
 	}
 }
@@ -0,0 +1,94 @@
+import {
+	type MemorySettings,
+	getMemorySettings,
+} from "../database/models/MemorySettings.js";
+
+// How long a tenant's settings are reused before being read again
+const TTL_MS =
+	Number(process.env.MEMORY_SETTINGS_CACHE_TTL_MS ?? 30 * 1000) || 0;
+
+// Most tenants cached at once; the oldest entries are dropped beyond it
+const MAX_ENTRIES = 1000;
+
+interface CacheEntry {
+	settings: Promise<MemorySettings | undefined>;
+	expiresAt: number;
+}
+
+/**
+ * Short-lived per-tenant cache of memory settings
+ *
+ * Searches read the tenant's ranking defaults on every request; the cache
+ * spares the database those reads. Changes made through this process are
+ * visible right away, changes made through another API instance after at
+ * most MEMORY_SETTINGS_CACHE_TTL_MS (0 disables the cache).
+ */
+export class MemorySettingsCache {
+	private entries = new Map<string, CacheEntry>(); // Oldest first
+
+	/**
+	 * Get a tenant's settings, reading them from the database when not cached
+	 *
+	 * @param userId - Tenant to look up
+	 * @returns Promise resolving to the settings, or undefined if none are saved
+	 */
+	async get(userId: string): Promise<MemorySettings | undefined> {
+		if (TTL_MS <= 0) {
+			return getMemorySettings(userId);
+		}
+
+		const existing = this.entries.get(userId);
+		if (existing && existing.expiresAt > Date.now()) {
+			return existing.settings;
+		}
+
+		const entry: CacheEntry = {
+			settings: getMemorySettings(userId),
+			expiresAt: Date.now() + TTL_MS,
+		};
+		this.store(userId, entry);
+
+		try {
+			return await entry.settings;
+		} catch (error) {
+			// Don't cache failed reads so the next request retries
+			if (this.entries.get(userId) === entry) {
+				this.entries.delete(userId);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Replace a tenant's cached settings after saving them
+	 *
+	 * @param userId - Tenant the settings belong to
+	 * @param settings - Settings as saved
+	 */
+	set(userId: string, settings: MemorySettings): void {
+		if (TTL_MS > 0) {
+			this.store(userId, {
+				settings: Promise.resolve(settings),
+				expiresAt: Date.now() + TTL_MS,
+			});
+		}
+	}
+
+	private store(userId: string, entry: CacheEntry): void {
+		// Re-insert so the Map stays ordered by age
+		this.entries.delete(userId);
+		this.entries.set(userId, entry);
+
+		for (const key of this.entries.keys()) {
+			if (this.entries.size <= MAX_ENTRIES) {
+				return;
+			}
+			this.entries.delete(key);
+		}
+	}
+}
+
+/**
+ * Singleton memory settings cache for application-wide use.
+ */
+export const memorySettingsCache = new MemorySettingsCache();
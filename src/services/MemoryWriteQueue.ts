@@ -0,0 +1,350 @@
+import httpErrors from "http-errors";
+import { getMemoryCollection } from "../database/models/MemoryCollection.js";
+import { getMemoryPurge } from "../database/models/MemoryPurge.js";
+import {
+	type MemoryWriteJob,
+	claimMemoryWriteJobs,
+	completeMemoryWriteJob,
+	createMemoryWriteJob,
+	deferMemoryWriteJobs,
+	failMemoryWriteJob,
+	getMemoryWriteJob,
+	redirectMemoryWriteJobs,
+	releaseMemoryWriteJobs,
+	requeueStaleMemoryWriteJobs,
+	touchMemoryWriteJobs,
+} from "../database/models/MemoryWriteJob.js";
+import type { CreateMemory } from "../schemas/memory.js";
+import { embeddingService } from "./EmbeddingService.js";
+import { MemoryService, assertMemoriesWritable } from "./MemoryService.js";
+import { withVectorStore } from "./VectorStore.js";
+import { writeOverlay } from "./WriteOverlay.js";
+
+// Job as returned to clients
+export interface MemoryWriteJobStatus {
+	id: string;
+	status: MemoryWriteJob["status"];
+	result?: MemoryWriteJob["result"]; // Set once completed
+	error?: string; // Set once failed
+	attempts: number;
+	createdAt: string;
+	completedAt?: string;
+}
+
+// How often the queue is checked for pending writes (0 disables the worker)
+const POLL_INTERVAL_MS =
+	Number(process.env.MEMORY_WRITE_POLL_INTERVAL_MS ?? 1000) || 0;
+
+// Most jobs claimed at once; jobs for the same contract are written as one batch
+const BATCH_SIZE = Number(process.env.MEMORY_WRITE_BATCH_SIZE) || 50;
+
+// A job failing this many times is marked failed instead of retried
+const MAX_ATTEMPTS = 3;
+
+// Delay before a failed write is retried, doubled for every further attempt
+const RETRY_DELAY_MS = 30 * 1000;
+
+// How long writes to a contract being purged wait before checking again
+const PURGE_DEFER_MS = 5 * 1000;
+
+// Running jobs untouched for this long belong to a stopped worker and are requeued
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+// How often jobs being written are marked as still running
+const HEARTBEAT_MS = STALE_JOB_MS / 4;
+
+// How often a waiting client's job is re-read
+const WAIT_POLL_MS = 250;
+
+/**
+ * Durable queue of memory writes, processed in the background
+ *
+ * `POST /memories?async=true` stores the request as a job in Postgres and
+ * returns immediately. The worker claims pending jobs, groups them per
+ * contract and writes each group with `MemoryService.createMemories`, so a
+ * burst of writes costs one batch instead of one request each. Failed
+ * writes are retried up to MAX_ATTEMPTS times, with exponential backoff
+ * starting at RETRY_DELAY_MS. Until a write completes, the
+ * memory is searchable through the write overlay of the accepting process,
+ * which every run prunes against the job table.
+ *
+ * Jobs survive restarts: a job left running by a stopped worker is requeued
+ * after STALE_JOB_MS, so writes are delivered at least once. Jobs being
+ * written are heartbeated, so a long batch isn't mistaken for a stale one. Jobs for a
+ * contract being purged wait for the purge and then follow the tenant to
+ * the new contract.
+ */
+export class MemoryWriteQueue {
+	private timer: NodeJS.Timeout | null = null;
+	private processing = false;
+	private rerun = false; // Set when jobs arrive while a run is in progress
+	private lastRequeue = 0;
+
+	/**
+	 * Queue a memory write
+	 *
+	 * @param contractId - Contract to write to
+	 * @param userId - Tenant writing the memory, needed for collections
+	 * @param data - Validated create request
+	 * @returns Promise resolving to the pending job
+	 * @throws {HttpError} 404 when the collection does not exist
+	 * @throws {HttpError} 423 when the memories are being purged
+	 */
+	async enqueue(
+		contractId: string,
+		userId: string | undefined,
+		data: CreateMemory,
+	): Promise<MemoryWriteJobStatus> {
+		// Checked up front, as the client won't see the job fail until it polls
+		await assertMemoriesWritable(contractId);
+		if (data.collection) {
+			if (!userId) {
+				throw new Error("Collections require a MemoryService bound to a user");
+			}
+			if (!(await getMemoryCollection(userId, data.collection))) {
+				throw new httpErrors.NotFound(
+					`Collection "${data.collection}" does not exist`,
+				);
+			}
+		}
+
+		const job = await createMemoryWriteJob(contractId, userId ?? null, data);
+
+		writeOverlay.add(contractId, {
+			jobId: job.id,
+			content: data.content,
+			metadata: {
+				...data.metadata,
+				...(data.collection && { collection: data.collection }),
+				createdAt: job.createdAt.toISOString(),
+			},
+		});
+
+		// Embed in the background so the write is acknowledged right away
+		embeddingService
+			.textToEmbeddings(data.content)
+			.then((result) =>
+				writeOverlay.setEmbedding(contractId, job.id, result.embeddings),
+			)
+			.catch((error) => {
+				console.warn(`Could not embed pending write ${job.id}:`, error);
+			});
+
+		void this.process();
+
+		return this.toStatus(job);
+	}
+
+	/**
+	 * Get a write job of a tenant, optionally waiting for it to finish
+	 *
+	 * @param contractId - Tenant contract the caller is bound to
+	 * @param jobId - ID returned by `enqueue`
+	 * @param waitMs - How long to wait for the job to complete or fail (default: 0)
+	 * @returns Promise resolving to the job, or undefined if it doesn't exist or belongs to another tenant
+	 */
+	async getJob(
+		contractId: string,
+		jobId: string,
+		waitMs = 0,
+	): Promise<MemoryWriteJobStatus | undefined> {
+		const deadline = Date.now() + waitMs;
+
+		for (;;) {
+			const job = await getMemoryWriteJob(contractId, jobId);
+			if (
+				!job ||
+				job.status === "completed" ||
+				job.status === "failed" ||
+				Date.now() >= deadline
+			) {
+				return job && this.toStatus(job);
+			}
+
+			await new Promise((resolve) =>
+				setTimeout(resolve, Math.min(WAIT_POLL_MS, deadline - Date.now())),
+			);
+		}
+	}
+
+	/**
+	 * Start polling for pending writes every MEMORY_WRITE_POLL_INTERVAL_MS
+	 * Does nothing if the worker is disabled or already running
+	 */
+	start(): void {
+		if (this.timer || POLL_INTERVAL_MS <= 0) {
+			return;
+		}
+
+		console.log(`Memory write queue polling every ${POLL_INTERVAL_MS}ms`);
+
+		this.timer = setInterval(() => {
+			void this.process();
+		}, POLL_INTERVAL_MS);
+		this.timer.unref(); // Don't keep the process alive just for polling
+		void this.process();
+	}
+
+	/**
+	 * Stop polling for pending writes
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Write pending jobs until the queue is empty
+	 *
+	 * Runs never overlap: a call during a run makes that run check the queue
+	 * once more before it ends.
+	 */
+	async process(): Promise<void> {
+		if (this.processing) {
+			this.rerun = true;
+			return;
+		}
+		this.processing = true;
+
+		try {
+			if (Date.now() - this.lastRequeue >= STALE_JOB_MS) {
+				this.lastRequeue = Date.now();
+				const requeued = await requeueStaleMemoryWriteJobs(
+					new Date(Date.now() - STALE_JOB_MS),
+				);
+				if (requeued > 0) {
+					console.log(`Requeued ${requeued} stale memory write jobs`);
+				}
+			}
+
+			// Writes finished by other instances leave this process's overlay here
+			await writeOverlay.prune();
+
+			do {
+				this.rerun = false;
+				for (;;) {
+					// Jobs put back for a retry aren't due yet, so this ends
+					const jobs = await claimMemoryWriteJobs(BATCH_SIZE);
+					if (jobs.length === 0) {
+						break;
+					}
+
+					await this.writeJobs(jobs);
+				}
+			} while (this.rerun);
+		} catch (error) {
+			console.error("Memory write queue run failed:", error);
+		} finally {
+			this.processing = false;
+		}
+	}
+
+	// Write claimed jobs, one batch per contract
+	private async writeJobs(jobs: MemoryWriteJob[]): Promise<void> {
+		const groups = new Map<string, MemoryWriteJob[]>();
+		for (const job of jobs) {
+			const key = `${job.contractTxId}\u0000${job.userId ?? ""}`;
+			groups.set(key, [...(groups.get(key) ?? []), job]);
+		}
+
+		for (const group of groups.values()) {
+			const [{ contractTxId, userId }] = group;
+			const ids = group.map((job) => job.id);
+
+			// Writes wait for a purge to finish, then follow the tenant to the new contract
+			const purge = await getMemoryPurge(contractTxId);
+			if (purge?.replacedBy) {
+				await deferMemoryWriteJobs(ids);
+				await redirectMemoryWriteJobs(contractTxId, purge.replacedBy);
+				writeOverlay.move(contractTxId, purge.replacedBy);
+				continue;
+			}
+			if (purge) {
+				await deferMemoryWriteJobs(ids, PURGE_DEFER_MS);
+				continue;
+			}
+
+			console.log(`Writing ${group.length} queued memories to ${contractTxId}`);
+
+			const heartbeat = setInterval(() => {
+				touchMemoryWriteJobs(ids).catch((error) =>
+					console.warn("Failed to heartbeat queued memory writes:", error),
+				);
+			}, HEARTBEAT_MS);
+			heartbeat.unref();
+
+			try {
+				const { results } = await withVectorStore(contractTxId, (vectorStore) =>
+					new MemoryService(vectorStore, userId ?? undefined).createMemories({
+						memories: group.map((job) => job.request),
+					}),
+				);
+
+				for (const item of results) {
+					const job = group[item.index];
+					if (item.status === "failed") {
+						await this.retryOrFail(job, item.error ?? "Unknown error");
+						continue;
+					}
+
+					await completeMemoryWriteJob(job.id, {
+						action: item.status,
+						memoryId: item.memoryId as number,
+						...(item.existingMemoryId !== undefined && {
+							existingMemoryId: item.existingMemoryId,
+						}),
+					});
+					writeOverlay.remove(contractTxId, job.id);
+				}
+			} catch (error) {
+				// A purge started since the check above; the next run redirects the jobs
+				if (httpErrors.isHttpError(error) && error.statusCode === 423) {
+					await deferMemoryWriteJobs(ids, PURGE_DEFER_MS);
+					continue;
+				}
+
+				// The whole batch failed, e.g. the contract was unreachable
+				console.error(`Queued writes to ${contractTxId} failed:`, error);
+				const message =
+					error instanceof Error ? error.message : "Unknown error";
+				for (const job of group) {
+					await this.retryOrFail(job, message);
+				}
+			} finally {
+				clearInterval(heartbeat);
+			}
+		}
+	}
+
+	// Put a failed job back in the queue after a backoff, or fail it for good after MAX_ATTEMPTS
+	private async retryOrFail(job: MemoryWriteJob, error: string): Promise<void> {
+		if (job.attempts < MAX_ATTEMPTS) {
+			// `attempts` counts the attempt that just failed
+			const delayMs = RETRY_DELAY_MS * 2 ** (job.attempts - 1);
+			await releaseMemoryWriteJobs([job.id], delayMs);
+			return;
+		}
+
+		await failMemoryWriteJob(job.id, error);
+		writeOverlay.remove(job.contractTxId, job.id);
+	}
+
+	private toStatus(job: MemoryWriteJob): MemoryWriteJobStatus {
+		return {
+			id: job.id,
+			status: job.status,
+			...(job.result && { result: job.result }),
+			...(job.error && { error: job.error }),
+			attempts: job.attempts,
+			createdAt: job.createdAt.toISOString(),
+			...(job.completedAt && { completedAt: job.completedAt.toISOString() }),
+		};
+	}
+}
+
+/**
+ * Singleton memory write queue for application-wide use.
+ */
+export const memoryWriteQueue = new MemoryWriteQueue();
@@ -0,0 +1,195 @@
+import httpErrors from "http-errors";
+import type { RecallBenchmark, VectorEmbedding } from "../schemas/eizen.js";
+import { cosineSimilarity, rankByDistance } from "../utils/vector.js";
+import { type HnswParams, getHnswParams } from "./HnswIndex.js";
+import type { VectorStore } from "./VectorStore.js";
+
+export interface RecallBenchmarkResult {
+	contractId: string;
+	vectorCount: number; // Vectors compared against by the exact search
+	queries: number; // Stored vectors actually sampled (at most the vector count)
+	k: number;
+	params: HnswParams; // Current EIZEN_M / EIZEN_EF_* settings
+	recall: number; // Mean share of the true top-k found by HNSW, in [0, 1]
+	minRecall: number; // Worst single query
+	perfectQueries: number; // Queries whose HNSW results matched exactly
+	hnswLatencyMs: number; // Mean HNSW search time per query
+	exactLatencyMs: number; // Mean exact search time per query, excluding the scan
+	scanMs: number; // Time spent reading every vector once
+}
+
+// Distances closer than this count as tied, so ties at the k-th place aren't misses
+const DISTANCE_EPSILON = 1e-9;
+
+/**
+ * Share of the true k nearest neighbours found by an approximate search
+ *
+ * A hit as close as the k-th true neighbour counts as found even if a tie
+ * picked another ID. Distances of approximate hits are recomputed from
+ * `points`, so both sides use the same arithmetic.
+ *
+ * @param query - Query vector
+ * @param approximateIds - IDs returned by the approximate search, at most k
+ * @param exact - True k nearest neighbours with their distances, closest first
+ * @param points - Stored vectors by ID
+ * @returns Recall in [0, 1] (1 when there is nothing to find)
+ */
+export function recallAtK(
+	query: VectorEmbedding,
+	approximateIds: number[],
+	exact: Array<{ id: number; distance: number }>,
+	points: Map<number, VectorEmbedding>,
+): number {
+	if (exact.length === 0) {
+		return 1;
+	}
+
+	const exactIds = new Set(exact.map((hit) => hit.id));
+	const cutoff = (exact.at(-1)?.distance ?? 0) + DISTANCE_EPSILON;
+	const found = approximateIds.filter((id) => {
+		const point = points.get(id);
+		return (
+			exactIds.has(id) ||
+			(point !== undefined && 1 - cosineSimilarity(query, point) <= cutoff)
+		);
+	}).length;
+	return Math.min(found, exact.length) / exact.length;
+}
+
+/**
+ * Measures how well the HNSW index approximates exact nearest neighbour search
+ *
+ * Samples stored vectors as queries, runs each through the store's HNSW
+ * search and through a brute-force scan, and reports recall@k: the share of
+ * the true k nearest neighbours that HNSW returned. The query vector itself
+ * is left out of both result lists, since finding it is trivial.
+ *
+ * Use it to tune EIZEN_M / EIZEN_EF_CONSTRUCTION / EIZEN_EF_SEARCH: the
+ * search runs with the current settings, while the graph keeps the
+ * parameters it was built with.
+ *
+ * Each query costs a full exact scan, so only one benchmark runs at a time
+ * and it yields to other requests between queries.
+ */
+export class RecallBenchmarkService {
+	private running = false;
+
+	/**
+	 * Run the benchmark on a vector store
+	 *
+	 * @param vectorStore - Store to benchmark
+	 * @param options - Number of sampled queries and k
+	 * @returns Promise resolving to the recall and latency figures
+	 * @throws {HttpError} 400 when the store holds fewer than two vectors
+	 * @throws {HttpError} 409 when a benchmark is already running
+	 */
+	async run(
+		vectorStore: VectorStore,
+		options: Pick<RecallBenchmark, "queries" | "k">,
+	): Promise<RecallBenchmarkResult> {
+		if (this.running) {
+			throw new httpErrors.Conflict("A recall benchmark is already running");
+		}
+		this.running = true;
+
+		try {
+			const scanStart = performance.now();
+			const vectors: Array<{ id: number; point: VectorEmbedding }> = [];
+			for await (const vector of vectorStore.scanVectors()) {
+				vectors.push({ id: vector.id, point: vector.point });
+			}
+			const scanMs = performance.now() - scanStart;
+
+			if (vectors.length < 2) {
+				throw new httpErrors.BadRequest(
+					`Need at least 2 vectors to measure recall, found ${vectors.length}`,
+				);
+			}
+
+			const points = new Map(
+				vectors.map((vector) => [vector.id, vector.point]),
+			);
+			const samples = this.sample(vectors, options.queries);
+			console.log(
+				`Measuring recall@${options.k} over ${samples.length} queries against ${vectors.length} vectors`,
+			);
+
+			const recalls: number[] = [];
+			let hnswMs = 0;
+			let exactMs = 0;
+
+			for (const query of samples) {
+				// Let other requests run between queries
+				await new Promise((resolve) => setImmediate(resolve));
+
+				const hnswStart = performance.now();
+				const approximate = (
+					await vectorStore.searchVectors({
+						query: query.point,
+						k: options.k + 1,
+					})
+				)
+					.filter((hit) => hit.id !== query.id)
+					.slice(0, options.k);
+				hnswMs += performance.now() - hnswStart;
+
+				const exactStart = performance.now();
+				const exact = rankByDistance(
+					query.point,
+					vectors.filter((vector) => vector.id !== query.id),
+				).slice(0, options.k);
+				exactMs += performance.now() - exactStart;
+
+				recalls.push(
+					recallAtK(
+						query.point,
+						approximate.map((hit) => hit.id),
+						exact,
+						points,
+					),
+				);
+			}
+
+			return {
+				contractId: vectorStore.getContractId(),
+				vectorCount: vectors.length,
+				queries: samples.length,
+				k: options.k,
+				params: getHnswParams(),
+				recall:
+					recalls.reduce((sum, recall) => sum + recall, 0) / recalls.length,
+				minRecall: Math.min(...recalls),
+				perfectQueries: recalls.filter((recall) => recall === 1).length,
+				hnswLatencyMs: hnswMs / samples.length,
+				exactLatencyMs: exactMs / samples.length,
+				scanMs,
+			};
+		} catch (error) {
+			if (httpErrors.isHttpError(error)) {
+				throw error;
+			}
+			console.error("Failed to measure recall:", error);
+			throw new Error(
+				`Failed to measure recall: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	// Pick up to `count` distinct items at random (partial Fisher-Yates shuffle)
+	private sample<T>(items: T[], count: number): T[] {
+		const pool = [...items];
+		const size = Math.min(count, pool.length);
+		for (let i = 0; i < size; i++) {
+			const j = i + Math.floor(Math.random() * (pool.length - i));
+			[pool[i], pool[j]] = [pool[j], pool[i]];
+		}
+		return pool.slice(0, size);
+	}
+}
+
+/**
+ * Singleton recall benchmark service for application-wide use.
+ */
+export const recallBenchmarkService = new RecallBenchmarkService();
@@ -0,0 +1,228 @@
+export interface ServiceRegistryOptions<T> {
+	name: string; // Used in logs
+	maxSize: number; // Most services kept at once; the least recently used is evicted beyond it (0 disables size eviction)
+	idleMs: number; // Services unused for this long are evicted (0 disables idle eviction)
+	create: (key: string) => Promise<T>;
+	dispose: (service: T) => Promise<void>;
+}
+
+export interface ServiceRegistryStats {
+	size: number;
+	maxSize: number;
+	idleMs: number;
+	hits: number; // Requests served by a cached (or initializing) service
+	misses: number; // Requests that started a new initialization
+	evictions: number;
+}
+
+// A service handed out by `acquire`; call `release` once done with it
+export interface ServiceLease<T> {
+	service: T;
+	release: () => void; // Safe to call more than once
+}
+
+interface RegistryEntry<T> {
+	service: Promise<T>;
+	lastUsed: number;
+	leases: number; // Callers currently using the service
+	evicted: boolean; // Removed from the cache, disposed once the last lease is released
+}
+
+/**
+ * Bounded LRU cache of initialized services, keyed by an ID
+ *
+ * Services are created on first use and reused afterwards. Concurrent first
+ * requests for the same key share one initialization, and failed
+ * initializations are not cached so the next request retries. Services are
+ * evicted when the registry is full or when they sat idle for `idleMs`.
+ * Callers lease services, and only services nobody holds a lease on are
+ * evicted: the registry grows past `maxSize` while every service is in use
+ * rather than let a second instance for the same key be created.
+ */
+export class ServiceRegistry<T> {
+	private entries = new Map<string, RegistryEntry<T>>(); // Least recently used first
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+	private timer: NodeJS.Timeout | null = null;
+
+	constructor(private readonly options: ServiceRegistryOptions<T>) {}
+
+	/**
+	 * Lease the service for a key, creating it if needed
+	 *
+	 * @param key - ID of the service
+	 * @returns Promise resolving to the initialized service and its release callback
+	 *
+	 * @example
+	 * ```typescript
+	 * const { service, release } = await registry.acquire(contractId);
+	 * try {
+	 *   await service.getStats();
+	 * } finally {
+	 *   release();
+	 * }
+	 * ```
+	 */
+	async acquire(key: string): Promise<ServiceLease<T>> {
+		let entry = this.entries.get(key);
+		if (entry) {
+			this.hits++;
+			// Re-insert to mark it as most recently used
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		} else {
+			this.misses++;
+			entry = {
+				service: this.options.create(key),
+				lastUsed: Date.now(),
+				leases: 0,
+				evicted: false,
+			};
+			this.entries.set(key, entry);
+			this.startIdleEviction();
+		}
+
+		const leased = entry;
+		leased.leases++;
+		leased.lastUsed = Date.now();
+
+		let service: T;
+		try {
+			service = await leased.service;
+		} catch (error) {
+			leased.leases--;
+			// Don't cache failed initializations so the next request retries
+			if (this.entries.get(key) === leased) {
+				this.entries.delete(key);
+			}
+			throw error;
+		}
+
+		// Only make room once the new service is usable
+		this.evictOverflow();
+
+		let released = false;
+		return {
+			service,
+			release: () => {
+				if (released) {
+					return;
+				}
+				released = true;
+				leased.leases--;
+				leased.lastUsed = Date.now();
+				if (leased.evicted && leased.leases === 0) {
+					void this.dispose(leased);
+				} else if (leased.leases === 0) {
+					// Room that was kept while the service was in use can be made now
+					this.evictOverflow();
+				}
+			},
+		};
+	}
+
+	/**
+	 * Drop the service for a key from the cache
+	 *
+	 * The next `acquire` creates a fresh service; the dropped one is disposed
+	 * once its current users release it.
+	 *
+	 * @param key - ID of the service
+	 */
+	invalidate(key: string): void {
+		this.evict(key);
+	}
+
+	/**
+	 * Get cache statistics
+	 */
+	getStats(): ServiceRegistryStats {
+		return {
+			size: this.entries.size,
+			maxSize: this.options.maxSize,
+			idleMs: this.options.idleMs,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+		};
+	}
+
+	/**
+	 * Dispose of every cached service and stop idle eviction
+	 *
+	 * Meant for shutdown: services are disposed even if still leased.
+	 */
+	async clear(): Promise<void> {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+
+		const entries = [...this.entries.values()];
+		this.entries.clear();
+		await Promise.all(entries.map((entry) => this.dispose(entry)));
+	}
+
+	private evictOverflow(): void {
+		const { maxSize } = this.options;
+		if (maxSize <= 0) {
+			return;
+		}
+
+		for (const [key, entry] of this.entries) {
+			if (this.entries.size <= maxSize) {
+				return;
+			}
+			// Evicting a leased service would let `acquire` create a second one for the key
+			if (entry.leases === 0) {
+				this.evict(key);
+			}
+		}
+	}
+
+	private evictIdle(): void {
+		const cutoff = Date.now() - this.options.idleMs;
+		for (const [key, entry] of this.entries) {
+			// A service in use isn't idle, however long ago it was acquired
+			if (entry.leases === 0 && entry.lastUsed < cutoff) {
+				this.evict(key);
+			}
+		}
+	}
+
+	private evict(key: string): void {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return;
+		}
+
+		this.entries.delete(key);
+		entry.evicted = true;
+		this.evictions++;
+		console.log(`${this.options.name} evicted from cache: ${key}`);
+		if (entry.leases === 0) {
+			void this.dispose(entry);
+		}
+	}
+
+	private async dispose(entry: RegistryEntry<T>): Promise<void> {
+		try {
+			await this.options.dispose(await entry.service);
+		} catch {
+			// Failed initializations have nothing to dispose of
+		}
+	}
+
+	private startIdleEviction(): void {
+		if (this.timer || this.options.idleMs <= 0) {
+			return;
+		}
+
+		this.timer = setInterval(
+			() => this.evictIdle(),
+			Math.min(this.options.idleMs, 60 * 1000),
+		);
+		this.timer.unref(); // Don't keep the process alive just for eviction
+	}
+}
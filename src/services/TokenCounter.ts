@@ -0,0 +1,74 @@
+import { AutoTokenizer } from "@xenova/transformers";
+import { embeddingService } from "./EmbeddingService.js";
+
+type Tokenizer = {
+	encode(
+		text: string,
+		textPair?: string | null,
+		options?: { add_special_tokens?: boolean },
+	): number[];
+};
+
+// Hugging Face tokenizer used to size prompt context (e.g. "Xenova/gpt-4");
+// unset means the embedding model's own tokenizer
+const CONTEXT_TOKENIZER = process.env.MEMORY_CONTEXT_TOKENIZER?.trim() || null;
+
+/**
+ * Counts tokens the way the consuming LLM will
+ *
+ * Context packs are sized against the model that reads them, whose tokenizer
+ * usually differs from the embedding model's. MEMORY_CONTEXT_TOKENIZER names
+ * a Hugging Face tokenizer to load for that; without it counts come from the
+ * embedding model, which is a reasonable approximation for English text.
+ */
+export class TokenCounter {
+	private tokenizer: Promise<Tokenizer> | null = null;
+
+	constructor(private readonly tokenizerName: string | null) {}
+
+	/**
+	 * Count the tokens of a text, excluding special tokens
+	 *
+	 * @param text - Text to count
+	 * @returns Promise resolving to the token count
+	 */
+	async count(text: string): Promise<number> {
+		if (!this.tokenizerName) {
+			return embeddingService.countTokens(text);
+		}
+
+		const tokenizer = await this.loadTokenizer(this.tokenizerName);
+		return tokenizer.encode(text, null, { add_special_tokens: false }).length;
+	}
+
+	/**
+	 * Name of the tokenizer counts are based on
+	 */
+	getName(): string {
+		return this.tokenizerName ?? embeddingService.getInfo().model;
+	}
+
+	private loadTokenizer(name: string): Promise<Tokenizer> {
+		if (!this.tokenizer) {
+			console.log(`Loading context tokenizer: ${name}`);
+
+			const loading = AutoTokenizer.from_pretrained(name) as Promise<Tokenizer>;
+			this.tokenizer = loading;
+
+			// Don't cache a failed load so the next request retries
+			loading.catch((error) => {
+				console.error("Context tokenizer loading failed:", error);
+				if (this.tokenizer === loading) {
+					this.tokenizer = null;
+				}
+			});
+		}
+
+		return this.tokenizer;
+	}
+}
+
+/**
+ * Singleton token counter for application-wide use.
+ */
+export const tokenCounter = new TokenCounter(CONTEXT_TOKENIZER);
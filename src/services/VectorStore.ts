@@ -0,0 +1,238 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { z } from "zod";
+import type {
+	InsertVector,
+	SearchVector,
+	VectorEmbedding,
+	VectorMetadata,
+} from "../schemas/eizen.js";
+import { InMemoryVectorStore } from "./InMemoryVectorStore.js";
+import { LocalVectorStore } from "./LocalVectorStore.js";
+import {
+	ServiceRegistry,
+	type ServiceRegistryStats,
+} from "./ServiceRegistry.js";
+
+export interface VectorSearchResult {
+	id: number;
+	distance: number; // Distance/similarity score (lower value == higher similarity)
+	metadata?: VectorMetadata;
+}
+
+export interface VectorInsertResult {
+	success: boolean;
+	vectorId: number;
+	message: string;
+}
+
+export interface StoredVector {
+	point: VectorEmbedding;
+	metadata?: VectorMetadata;
+}
+
+export interface VectorStoreStats {
+	totalVectors: number;
+	isInitialized: boolean;
+	contractId: string;
+}
+
+/**
+ * Storage backend for one tenant's vectors
+ *
+ * Every backend assigns vector IDs sequentially from 0 in insertion order and
+ * measures distance as cosine distance, so MemoryService behaves the same on
+ * all of them. The tenant's `contract_tx_id` identifies its store; see
+ * `acquireVectorStore` for how it selects the backend.
+ */
+export interface VectorStore {
+	insertVector(data: InsertVector): Promise<VectorInsertResult>;
+	searchVectors(data: SearchVector): Promise<VectorSearchResult[]>;
+	getVector(vectorId: number): Promise<StoredVector | null>;
+	scanVectors(startId?: number): AsyncGenerator<{ id: number } & StoredVector>;
+	getVectorCount(): Promise<number>; // Vectors ever inserted, deleted ones included
+	deleteVector(vectorId: number): Promise<boolean>; // False if the vector does not exist
+	getStats(): Promise<VectorStoreStats>;
+	getContractId(): string;
+	cleanup(): Promise<void>;
+}
+
+// A store handed out by `acquireVectorStore`; call `release` once done with it
+export interface VectorStoreLease {
+	store: VectorStore;
+	release: () => void; // Safe to call more than once
+}
+
+/**
+ * Vector store backends
+ * - eizen: HNSW on HollowDB/Arweave (production)
+ * - memory: in-process only, lost on restart or eviction (tests and CI)
+ * - local: in-process, persisted to VECTOR_STORE_DIR (development, free tier)
+ */
+export const vectorStoreKindSchema = z.enum(["eizen", "memory", "local"]);
+
+export type VectorStoreKind = z.infer<typeof vectorStoreKindSchema>;
+
+// Backend given to newly deployed stores
+const DEFAULT_VECTOR_STORE = vectorStoreKindSchema
+	.catch("eizen")
+	.parse(process.env.VECTOR_STORE?.trim() || undefined);
+
+// Directory holding the insertion logs of local stores
+const LOCAL_STORE_DIR = process.env.VECTOR_STORE_DIR || "./data/vectors";
+
+// Local stores are reopened from their log, so they are evicted like Eizen instances
+const localStores = new ServiceRegistry<VectorStore>({
+	name: "LocalVectorStore",
+	maxSize: Number(process.env.VECTOR_STORE_CACHE_SIZE) || 100,
+	idleMs: Number(process.env.VECTOR_STORE_IDLE_MS ?? 15 * 60 * 1000) || 0,
+	create: async (contractId) =>
+		LocalVectorStore.open(contractId, getLocalStorePath(contractId)),
+	dispose: (store) => store.cleanup(),
+});
+
+// Memory stores exist nowhere else, so they are never evicted (only replaced by a purge)
+const memoryStores = new ServiceRegistry<VectorStore>({
+	name: "InMemoryVectorStore",
+	maxSize: 0,
+	idleMs: 0,
+	create: async (contractId) => new InMemoryVectorStore(contractId),
+	dispose: (store) => store.cleanup(),
+});
+
+/**
+ * Backend a store ID belongs to
+ *
+ * IDs of memory and local stores carry their backend as a prefix
+ * ("local:<uuid>"); anything else is an Arweave contract transaction ID.
+ */
+export function getVectorStoreKind(contractId: string): VectorStoreKind {
+	const [prefix] = contractId.split(":", 1);
+	return prefix === "memory" || prefix === "local" ? prefix : "eizen";
+}
+
+/**
+ * Backend configured for new stores via VECTOR_STORE (default: eizen)
+ */
+export function getDefaultVectorStoreKind(): VectorStoreKind {
+	return DEFAULT_VECTOR_STORE;
+}
+
+/**
+ * Lease the vector store of a tenant
+ *
+ * Stores are cached and cleaned up when evicted (see
+ * VECTOR_STORE_CACHE_SIZE and EIZEN_SERVICE_CACHE_SIZE). Leased stores are
+ * never evicted, so release the lease as soon as the store is no longer
+ * needed.
+ *
+ * @param contractId - The tenant's `contract_tx_id`
+ * @returns Promise resolving to a ready-to-use store and its release callback
+ *
+ * @example
+ * ```typescript
+ * const { store, release } = await acquireVectorStore(req.contractId);
+ * res.once("close", release);
+ * const memoryService = new MemoryService(store, req.userId);
+ * ```
+ */
+export async function acquireVectorStore(
+	contractId: string,
+): Promise<VectorStoreLease> {
+	const kind = getVectorStoreKind(contractId);
+	if (kind === "eizen") {
+		// Loaded on first use so memory and local stores don't pull in Eizen and Arweave
+		const { EizenService } = await import("./EizenService.js");
+		const { service, release } = await EizenService.forContract(contractId);
+		return { store: service, release };
+	}
+
+	const registry = kind === "memory" ? memoryStores : localStores;
+	const { service, release } = await registry.acquire(contractId);
+	return { store: service, release };
+}
+
+/**
+ * Drop a store from the cache, e.g. once a purge has replaced it
+ *
+ * Memory stores lose their contents; Eizen and local stores are reopened
+ * from their contract or log on next use.
+ *
+ * @param contractId - The store's `contract_tx_id`
+ */
+export async function invalidateVectorStore(contractId: string): Promise<void> {
+	const kind = getVectorStoreKind(contractId);
+	if (kind === "eizen") {
+		const { EizenService } = await import("./EizenService.js");
+		EizenService.invalidate(contractId);
+		return;
+	}
+
+	(kind === "memory" ? memoryStores : localStores).invalidate(contractId);
+}
+
+/**
+ * Cache statistics of the stores of a backend
+ *
+ * @param kind - Backend to report on (default: the one configured via VECTOR_STORE)
+ * @returns Promise resolving to the statistics of the registry caching that backend's stores
+ */
+export async function getVectorStoreCacheStats(
+	kind: VectorStoreKind = DEFAULT_VECTOR_STORE,
+): Promise<ServiceRegistryStats> {
+	if (kind === "eizen") {
+		const { EizenService } = await import("./EizenService.js");
+		return EizenService.getCacheStats();
+	}
+
+	return (kind === "memory" ? memoryStores : localStores).getStats();
+}
+
+/**
+ * Run a task with the vector store of a tenant, releasing it afterwards
+ *
+ * @param contractId - The tenant's `contract_tx_id`
+ * @param task - Work to do with the store
+ * @returns Promise resolving to the task's result
+ */
+export async function withVectorStore<T>(
+	contractId: string,
+	task: (store: VectorStore) => Promise<T>,
+): Promise<T> {
+	const { store, release } = await acquireVectorStore(contractId);
+	try {
+		return await task(store);
+	} finally {
+		release();
+	}
+}
+
+/**
+ * Create a new, empty vector store for a tenant
+ *
+ * @param kind - Backend to use (default: VECTOR_STORE)
+ * @returns Promise resolving to the new store ID, to save as the tenant's `contract_tx_id`
+ */
+export async function deployVectorStore(
+	kind: VectorStoreKind = DEFAULT_VECTOR_STORE,
+): Promise<{ contractId: string }> {
+	if (kind === "eizen") {
+		const { EizenService } = await import("./EizenService.js");
+		return EizenService.deployNewContract();
+	}
+
+	const contractId = `${kind}:${randomUUID()}`;
+	// Opening it creates the store; it stays cached for the tenant's first request
+	(await acquireVectorStore(contractId)).release();
+
+	console.log(`Created ${kind} vector store: ${contractId}`);
+	return { contractId };
+}
+
+function getLocalStorePath(contractId: string): string {
+	const name = contractId.slice("local:".length);
+	if (!/^[\w-]+$/.test(name)) {
+		throw new Error(`Invalid local vector store ID: ${contractId}`);
+	}
+	return path.join(LOCAL_STORE_DIR, `${name}.ndjson`);
+}
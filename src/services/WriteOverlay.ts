@@ -0,0 +1,140 @@
+import { listUnfinishedMemoryWriteJobIds } from "../database/models/MemoryWriteJob.js";
+import type { VectorEmbedding, VectorMetadata } from "../schemas/eizen.js";
+import { cosineSimilarity } from "../utils/vector.js";
+
+export interface PendingWrite {
+	jobId: string;
+	content: string;
+	metadata: NonNullable<VectorMetadata>; // Client metadata plus collection and createdAt
+	embedding?: VectorEmbedding; // Set once computed; unembedded writes aren't searchable yet
+}
+
+export interface PendingWriteMatch extends PendingWrite {
+	distance: number; // Cosine distance from the query
+}
+
+/**
+ * Memories accepted by the write queue but not stored in the contract yet
+ *
+ * Lets searches return a tenant's latest writes while the queue is still
+ * writing them out. Entries live in the memory of the process that accepted
+ * the write. The job table decides when they go: any API instance may write
+ * them out, so `prune` drops the entries whose jobs have completed or failed.
+ */
+export class WriteOverlay {
+	private writes = new Map<string, Map<string, PendingWrite>>(); // contractId -> jobId -> write
+
+	/**
+	 * Add a pending write
+	 *
+	 * @param contractId - Contract the memory is being written to
+	 * @param write - The pending memory
+	 */
+	add(contractId: string, write: PendingWrite): void {
+		let writes = this.writes.get(contractId);
+		if (!writes) {
+			writes = new Map();
+			this.writes.set(contractId, writes);
+		}
+		writes.set(write.jobId, write);
+	}
+
+	/**
+	 * Attach the embedding of a pending write, making it searchable
+	 *
+	 * Does nothing if the write has already left the overlay.
+	 */
+	setEmbedding(
+		contractId: string,
+		jobId: string,
+		embedding: VectorEmbedding,
+	): void {
+		const write = this.writes.get(contractId)?.get(jobId);
+		if (write) {
+			write.embedding = embedding;
+		}
+	}
+
+	/**
+	 * Remove a write once it is stored (or has failed)
+	 */
+	remove(contractId: string, jobId: string): void {
+		const writes = this.writes.get(contractId);
+		writes?.delete(jobId);
+		if (writes?.size === 0) {
+			this.writes.delete(contractId);
+		}
+	}
+
+	/**
+	 * Move a contract's pending writes to another contract
+	 *
+	 * Used when a purge replaces the contract and redirects its queued jobs.
+	 */
+	move(fromContractId: string, toContractId: string): void {
+		const writes = this.writes.get(fromContractId);
+		if (!writes) {
+			return;
+		}
+
+		this.writes.delete(fromContractId);
+		for (const write of writes.values()) {
+			this.add(toContractId, write);
+		}
+	}
+
+	/**
+	 * Drop the writes whose jobs have finished, whichever instance ran them
+	 *
+	 * @param contractId - Only check this contract's writes (default: every contract)
+	 */
+	async prune(contractId?: string): Promise<void> {
+		const writes = [...this.writes]
+			.filter(([id]) => contractId === undefined || id === contractId)
+			.flatMap(([id, jobs]) =>
+				[...jobs.keys()].map((jobId) => ({ contractId: id, jobId })),
+			);
+		if (writes.length === 0) {
+			return;
+		}
+
+		const unfinished = new Set(
+			await listUnfinishedMemoryWriteJobIds(writes.map((write) => write.jobId)),
+		);
+		for (const write of writes) {
+			if (!unfinished.has(write.jobId)) {
+				this.remove(write.contractId, write.jobId);
+			}
+		}
+	}
+
+	/**
+	 * Rank a contract's pending writes against a query embedding
+	 *
+	 * @param contractId - Contract to search
+	 * @param query - Query embedding
+	 * @returns Searchable pending writes ordered by ascending distance
+	 */
+	search(contractId: string, query: VectorEmbedding): PendingWriteMatch[] {
+		const writes = this.writes.get(contractId);
+		if (!writes) {
+			return [];
+		}
+
+		const matches: PendingWriteMatch[] = [];
+		for (const write of writes.values()) {
+			if (write.embedding) {
+				matches.push({
+					...write,
+					distance: 1 - cosineSimilarity(query, write.embedding),
+				});
+			}
+		}
+		return matches.sort((a, b) => a.distance - b.distance);
+	}
+}
+
+/**
+ * Singleton overlay of pending memory writes for application-wide use.
+ */
+export const writeOverlay = new WriteOverlay();
@@ -1,6 +1,6 @@
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import { findHashedKeyInDb } from '../database/models/ApiKey.js';
+import { type ApiKey, findHashedKeyInDb } from '../database/models/ApiKey.js';
 
 const JWT_SECRET = process.env.JWT_SECRET!;
 const JWT_ISSUER = 'archivenet-api';
@@ -76,13 +76,12 @@ export const generateApiKey = (userId: string): ApiKeyResult => {
  * - Checks the hashed key against the database using the provided lookup function.
  *
  * @param token - The API token received from the client.
- * @param findHashedKeyInDb - An async function to look up the hashed token in the database.
- * @returns A promise resolving to the decoded ApiKeyPayload if valid, or null otherwise.
+ * @returns A promise resolving to the decoded ApiKeyPayload and the stored key record if valid, or null otherwise.
  */
 
 export const verifyIncomingApiKey = (
     token: string,
-): Promise<ApiKeyPayload | null> => {
+): Promise<{ payload: ApiKeyPayload; apiKey: ApiKey } | null> => {
     try {
         const decoded = jwt.verify(token, JWT_SECRET, {
             issuer: JWT_ISSUER,
@@ -92,9 +91,9 @@ export const verifyIncomingApiKey = (
         const hashedKey = crypto.createHash('sha256').update(token).digest('hex');
 
         // Check in DB if this hashed key is active
-        return findHashedKeyInDb(hashedKey).then(hashedKey => {
-            if (!hashedKey) return null;
-            return decoded;
+        return findHashedKeyInDb(hashedKey).then(apiKey => {
+            if (!apiKey) return null;
+            return { payload: decoded, apiKey };
         });
     } catch {
         return Promise.resolve(null);
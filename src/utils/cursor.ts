@@ -0,0 +1,44 @@
+import httpErrors from "http-errors";
+
+/**
+ * Opaque pagination cursors for keyset-paginated listings
+ *
+ * A cursor encodes the [sortKey, id] position of the last item on a page,
+ * so the next page starts right after it even if items were added since.
+ */
+
+/**
+ * Encodes a listing position into a URL-safe cursor
+ *
+ * @param position - The [sortKey, id] position of the last item on a page
+ * @returns Cursor to return as `nextCursor`
+ */
+export function encodeCursor(position: [number, number]): string {
+	return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+/**
+ * Decodes a listing cursor back into the position it was created from
+ *
+ * @param cursor - `nextCursor` from a previous listing page
+ * @returns The [sortKey, id] position the next page starts after
+ *
+ * @throws {HttpError} 400 when the cursor is malformed
+ */
+export function decodeCursor(cursor: string): [number, number] {
+	try {
+		const position = JSON.parse(
+			Buffer.from(cursor, "base64url").toString("utf8"),
+		);
+		if (
+			Array.isArray(position) &&
+			position.length === 2 &&
+			position.every((value) => typeof value === "number")
+		) {
+			return position as [number, number];
+		}
+	} catch {
+		// Malformed base64 or JSON, reported below
+	}
+	throw new httpErrors.BadRequest("Invalid cursor");
+}
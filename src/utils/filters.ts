@@ -0,0 +1,118 @@
+import type { RangeBound, SearchFilters } from "../schemas/common.js";
+
+/**
+ * Search filter evaluation over memory metadata
+ */
+
+/**
+ * Evaluates a filter expression against a memory's metadata
+ *
+ * @param metadata - Stored memory metadata
+ * @param filter - Filter expression node
+ * @returns True if the metadata satisfies the expression
+ */
+export function matchesFilter(
+	metadata: Record<string, unknown>,
+	filter: SearchFilters,
+): boolean {
+	if ("and" in filter) {
+		return filter.and.every((child) => matchesFilter(metadata, child));
+	}
+
+	if ("or" in filter) {
+		return filter.or.some((child) => matchesFilter(metadata, child));
+	}
+
+	if ("not" in filter) {
+		return !matchesFilter(metadata, filter.not);
+	}
+
+	if ("eq" in filter) {
+		return getMetadataField(metadata, filter.eq.field) === filter.eq.value;
+	}
+
+	if ("in" in filter) {
+		const value = getMetadataField(metadata, filter.in.field);
+		return filter.in.values.some((candidate) => candidate === value);
+	}
+
+	if ("exists" in filter) {
+		const value = getMetadataField(metadata, filter.exists.field);
+		return value !== undefined && value !== null;
+	}
+
+	if ("contains" in filter) {
+		const value = getMetadataField(metadata, filter.contains.field);
+		if (Array.isArray(value)) {
+			return value.includes(filter.contains.value);
+		}
+		if (typeof value === "string") {
+			return value.includes(String(filter.contains.value));
+		}
+		return false;
+	}
+
+	if ("range" in filter) {
+		const { field, gt, gte, lt, lte } = filter.range;
+		const value = getMetadataField(metadata, field);
+		return (
+			(gt === undefined || compareToBound(value, gt) > 0) &&
+			(gte === undefined || compareToBound(value, gte) >= 0) &&
+			(lt === undefined || compareToBound(value, lt) < 0) &&
+			(lte === undefined || compareToBound(value, lte) <= 0)
+		);
+	}
+
+	// Tag set semantics
+	const memoryTags = Array.isArray(metadata.tags)
+		? (metadata.tags as unknown[])
+		: [];
+	const { all, any, none } = filter.tags;
+	return (
+		(all === undefined || all.every((tag) => memoryTags.includes(tag))) &&
+		(any === undefined || any.some((tag) => memoryTags.includes(tag))) &&
+		(none === undefined || !none.some((tag) => memoryTags.includes(tag)))
+	);
+}
+
+/**
+ * Reads a metadata value, following dot notation for nested keys
+ *
+ * @param metadata - Stored memory metadata
+ * @param field - Metadata key, e.g. "importance" or "project.name"
+ * @returns The value, or undefined if any segment is missing
+ */
+export function getMetadataField(
+	metadata: Record<string, unknown>,
+	field: string,
+): unknown {
+	let value: unknown = metadata;
+	for (const key of field.split(".")) {
+		if (value === null || typeof value !== "object") {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+/**
+ * Compares a metadata value against a range bound
+ *
+ * Numeric bounds compare numbers; ISO 8601 bounds compare dates.
+ *
+ * @param value - Metadata value
+ * @param bound - Range bound from the filter
+ * @returns Negative, zero or positive like a comparator, or NaN when the
+ * value is missing or not comparable (which fails every range check)
+ */
+export function compareToBound(value: unknown, bound: RangeBound): number {
+	if (typeof bound === "number") {
+		return typeof value === "number" ? value - bound : Number.NaN;
+	}
+
+	if (typeof value !== "string") {
+		return Number.NaN;
+	}
+	return new Date(value).getTime() - new Date(bound).getTime();
+}
@@ -0,0 +1,78 @@
+/**
+ * Text helpers shared by the memory services
+ */
+
+/**
+ * Splits text into passages that each fit within a token budget
+ *
+ * Cuts on word boundaries into passages of at most `maxTokens` tokens.
+ * Consecutive passages share up to `overlapTokens` tokens of trailing
+ * context (capped at half the budget) so facts spanning a boundary stay
+ * retrievable. Passages keep the original text verbatim, trimmed.
+ *
+ * @param text - The input string to split
+ * @param maxTokens - Maximum tokens per passage
+ * @param overlapTokens - Tokens repeated from the end of the previous passage
+ * @param countTokens - Token counter, e.g. the embedding model's tokenizer
+ * @returns The passages in order (a single passage if the text fits)
+ */
+export function splitIntoPassages(
+	text: string,
+	maxTokens: number,
+	overlapTokens: number,
+	countTokens: (segment: string) => number,
+): string[] {
+	if (countTokens(text) <= maxTokens) {
+		return [text];
+	}
+
+	// Words with their trailing whitespace, so joining them restores the text
+	const words = (text.match(/\s*\S+\s*/g) ?? []).map((word) => ({
+		word,
+		tokens: countTokens(word),
+	}));
+	const overlap = Math.min(overlapTokens, Math.floor(maxTokens / 2));
+
+	const passages: string[] = [];
+	let current: typeof words = [];
+	let currentTokens = 0;
+
+	for (const word of words) {
+		if (currentTokens + word.tokens > maxTokens && current.length > 0) {
+			passages.push(
+				current
+					.map((entry) => entry.word)
+					.join("")
+					.trim(),
+			);
+
+			// Carry the tail of the finished passage over as context
+			const carried: typeof words = [];
+			let carriedTokens = 0;
+			for (let i = current.length - 1; i >= 0; i--) {
+				if (carriedTokens + current[i].tokens > overlap) {
+					break;
+				}
+				carried.unshift(current[i]);
+				carriedTokens += current[i].tokens;
+			}
+			// Skip the overlap when it would not leave room for the next word
+			current = carriedTokens + word.tokens <= maxTokens ? carried : [];
+			currentTokens = current.length > 0 ? carriedTokens : 0;
+		}
+
+		current.push(word);
+		currentTokens += word.tokens;
+	}
+
+	if (current.length > 0) {
+		passages.push(
+			current
+				.map((entry) => entry.word)
+				.join("")
+				.trim(),
+		);
+	}
+
+	return passages;
+}
@@ -0,0 +1,95 @@
+/**
+ * Vector math helpers shared by the memory services
+ */
+
+/**
+ * Cosine similarity between two vectors of equal length
+ *
+ * @returns Similarity in [-1, 1], or 0 if either vector has zero length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+
+	if (normA === 0 || normB === 0) {
+		return 0;
+	}
+	return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Picks up to k candidates with maximal marginal relevance (MMR)
+ *
+ * Greedily picks the candidate maximising
+ *   lambda * sim(query, candidate) - (1 - lambda) * max sim(candidate, picked)
+ * so the selection stays relevant without repeating near-duplicates.
+ *
+ * @param candidates - Candidates carrying their vector as `point`
+ * @param query - Query vector
+ * @param k - Number of candidates to pick
+ * @param lambda - Relevance/diversity trade-off in [0, 1] (1 = pure relevance)
+ * @returns Up to k candidates in selection order
+ */
+export function maximalMarginalRelevance<T extends { point: number[] }>(
+	candidates: T[],
+	query: number[],
+	k: number,
+	lambda: number,
+): T[] {
+	const pool = candidates.map((candidate) => ({
+		candidate,
+		relevance: cosineSimilarity(query, candidate.point),
+	}));
+
+	const selected: typeof pool = [];
+	while (selected.length < k && pool.length > 0) {
+		let bestIndex = 0;
+		let bestScore = Number.NEGATIVE_INFINITY;
+
+		pool.forEach((entry, i) => {
+			const redundancy = selected.reduce(
+				(max, picked) =>
+					Math.max(
+						max,
+						cosineSimilarity(entry.candidate.point, picked.candidate.point),
+					),
+				0,
+			);
+			const score = lambda * entry.relevance - (1 - lambda) * redundancy;
+			if (score > bestScore) {
+				bestScore = score;
+				bestIndex = i;
+			}
+		});
+
+		selected.push(...pool.splice(bestIndex, 1));
+	}
+
+	return selected.map((entry) => entry.candidate);
+}
+
+/**
+ * Orders vectors by cosine distance from a query, as an exact search does
+ *
+ * @param query - Query vector
+ * @param vectors - Vectors carrying their ID and `point`
+ * @returns Every vector with its distance (1 - cosine similarity), closest first; ties by ascending ID
+ */
+export function rankByDistance<T extends { id: number; point: number[] }>(
+	query: number[],
+	vectors: T[],
+): Array<T & { distance: number }> {
+	return vectors
+		.map((vector) => ({
+			...vector,
+			distance: 1 - cosineSimilarity(query, vector.point),
+		}))
+		.sort((a, b) => a.distance - b.distance || a.id - b.id);
+}
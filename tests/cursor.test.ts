@@ -0,0 +1,35 @@
+import httpErrors from "http-errors";
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor } from "../src/utils/cursor.js";
+
+describe("listing cursors", () => {
+	it("round-trips a position", () => {
+		for (const position of [
+			[0, 0],
+			[1718000000000, 42],
+			[-3.5, 7],
+		] as Array<[number, number]>) {
+			expect(decodeCursor(encodeCursor(position))).toEqual(position);
+		}
+	});
+
+	it("produces URL-safe cursors", () => {
+		expect(encodeCursor([1718000000000, 123456])).toMatch(/^[A-Za-z0-9_-]+$/);
+	});
+
+	it.each([
+		["not base64 JSON", "%%%"],
+		["JSON that is not an array", Buffer.from('{"a":1}').toString("base64url")],
+		["a truncated cursor", encodeCursor([1, 2]).slice(0, -4)],
+		["non-numeric positions", Buffer.from('["1",2]').toString("base64url")],
+		["three positions", Buffer.from("[1,2,3]").toString("base64url")],
+	])("rejects %s with a 400", (_, cursor) => {
+		try {
+			decodeCursor(cursor);
+			expect.unreachable();
+		} catch (error) {
+			expect(httpErrors.isHttpError(error)).toBe(true);
+			expect((error as httpErrors.HttpError).statusCode).toBe(400);
+		}
+	});
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	deleteMemoryExpiriesById,
+	listDueMemoryExpiries,
+} from "../src/database/models/MemoryExpiry.js";
+import { createMemoryTombstone } from "../src/database/models/MemoryTombstone.js";
+import { ExpirySweeper } from "../src/services/ExpirySweeper.js";
+
+vi.mock("../src/database/models/MemoryExpiry.js", () => ({
+	deleteMemoryExpiriesById: vi.fn(),
+	listDueMemoryExpiries: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryTombstone.js", () => ({
+	createMemoryTombstone: vi.fn(),
+}));
+
+const expiries = (count: number, offset = 0) =>
+	Array.from({ length: count }, (_, i) => ({
+		id: `expiry-${offset + i}`,
+		contractTxId: "contract-a",
+		vectorId: offset + i,
+	}));
+
+describe("ExpirySweeper", () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.mocked(createMemoryTombstone).mockResolvedValue(true);
+	});
+
+	it("tombstones due memories and removes their expiries", async () => {
+		vi.mocked(listDueMemoryExpiries).mockResolvedValueOnce(expiries(2));
+
+		expect(await new ExpirySweeper().sweep()).toBe(2);
+
+		expect(vi.mocked(createMemoryTombstone).mock.calls).toEqual([
+			["contract-a", 0],
+			["contract-a", 1],
+		]);
+		expect(deleteMemoryExpiriesById).toHaveBeenCalledWith([
+			"expiry-0",
+			"expiry-1",
+		]);
+	});
+
+	it("doesn't count memories that were already deleted", async () => {
+		vi.mocked(listDueMemoryExpiries).mockResolvedValueOnce(expiries(2));
+		vi.mocked(createMemoryTombstone).mockResolvedValueOnce(false);
+
+		expect(await new ExpirySweeper().sweep()).toBe(1);
+		expect(deleteMemoryExpiriesById).toHaveBeenCalledWith([
+			"expiry-0",
+			"expiry-1",
+		]);
+	});
+
+	it("keeps reading batches until one comes back short", async () => {
+		vi.mocked(listDueMemoryExpiries)
+			.mockResolvedValueOnce(expiries(500))
+			.mockResolvedValueOnce(expiries(3, 500));
+
+		expect(await new ExpirySweeper().sweep()).toBe(503);
+		expect(listDueMemoryExpiries).toHaveBeenCalledTimes(2);
+		expect(deleteMemoryExpiriesById).toHaveBeenCalledTimes(2);
+	});
+
+	it("leaves a failing batch for the next sweep", async () => {
+		vi.mocked(listDueMemoryExpiries).mockResolvedValue(expiries(1));
+		vi.mocked(createMemoryTombstone).mockRejectedValueOnce(
+			new Error("db down"),
+		);
+		const sweeper = new ExpirySweeper();
+
+		expect(await sweeper.sweep()).toBe(0);
+		expect(deleteMemoryExpiriesById).not.toHaveBeenCalled();
+
+		expect(await sweeper.sweep()).toBe(1);
+	});
+
+	it("skips a sweep while the previous one is running", async () => {
+		let finish = (_due: ReturnType<typeof expiries>) => {};
+		vi.mocked(listDueMemoryExpiries).mockReturnValueOnce(
+			new Promise((resolve) => {
+				finish = resolve;
+			}),
+		);
+		const sweeper = new ExpirySweeper();
+
+		const first = sweeper.sweep();
+		expect(await sweeper.sweep()).toBe(0);
+		finish(expiries(1));
+
+		expect(await first).toBe(1);
+		expect(listDueMemoryExpiries).toHaveBeenCalledTimes(1);
+	});
+});
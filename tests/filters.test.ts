@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { searchFiltersSchema } from "../src/schemas/common.js";
+import {
+	compareToBound,
+	getMetadataField,
+	matchesFilter,
+} from "../src/utils/filters.js";
+
+const metadata = {
+	tags: ["work", "urgent"],
+	importance: 7,
+	client: "cursor",
+	timestamp: "2025-06-06T14:30:00Z",
+	project: { name: "archivenet", stars: 12 },
+};
+
+describe("matchesFilter", () => {
+	it("matches leaf operators", () => {
+		expect(
+			matchesFilter(metadata, { eq: { field: "client", value: "cursor" } }),
+		).toBe(true);
+		expect(
+			matchesFilter(metadata, { eq: { field: "client", value: "vscode" } }),
+		).toBe(false);
+		expect(
+			matchesFilter(metadata, { in: { field: "importance", values: [5, 7] } }),
+		).toBe(true);
+		expect(matchesFilter(metadata, { exists: { field: "project.name" } })).toBe(
+			true,
+		);
+		expect(
+			matchesFilter(metadata, { exists: { field: "project.owner" } }),
+		).toBe(false);
+		expect(
+			matchesFilter(metadata, { contains: { field: "tags", value: "urgent" } }),
+		).toBe(true);
+		expect(
+			matchesFilter(metadata, { contains: { field: "client", value: "curs" } }),
+		).toBe(true);
+		expect(
+			matchesFilter(metadata, { contains: { field: "importance", value: 7 } }),
+		).toBe(false);
+	});
+
+	it("applies tag set semantics", () => {
+		expect(matchesFilter(metadata, { tags: { all: ["work", "urgent"] } })).toBe(
+			true,
+		);
+		expect(matchesFilter(metadata, { tags: { all: ["work", "home"] } })).toBe(
+			false,
+		);
+		expect(matchesFilter(metadata, { tags: { any: ["home", "urgent"] } })).toBe(
+			true,
+		);
+		expect(matchesFilter(metadata, { tags: { none: ["urgent"] } })).toBe(false);
+		expect(matchesFilter({}, { tags: { none: ["urgent"] } })).toBe(true);
+	});
+
+	it("combines children with and/or/not", () => {
+		const work = { tags: { any: ["work"] } };
+		const low = { range: { field: "importance", lt: 5 } };
+
+		expect(matchesFilter(metadata, { and: [work, low] })).toBe(false);
+		expect(matchesFilter(metadata, { or: [work, low] })).toBe(true);
+		expect(matchesFilter(metadata, { and: [work, { not: low }] })).toBe(true);
+	});
+
+	it("checks numeric and date ranges", () => {
+		expect(
+			matchesFilter(metadata, {
+				range: { field: "importance", gte: 7, lte: 7 },
+			}),
+		).toBe(true);
+		expect(
+			matchesFilter(metadata, { range: { field: "importance", gt: 7 } }),
+		).toBe(false);
+		expect(
+			matchesFilter(metadata, {
+				range: {
+					field: "timestamp",
+					gte: "2025-06-01T00:00:00Z",
+					lt: "2025-07-01T00:00:00Z",
+				},
+			}),
+		).toBe(true);
+		expect(
+			matchesFilter(metadata, { range: { field: "project.stars", gt: 10 } }),
+		).toBe(true);
+	});
+
+	it("fails ranges on missing or mismatched values", () => {
+		expect(
+			matchesFilter(metadata, { range: { field: "missing", gte: 0 } }),
+		).toBe(false);
+		expect(
+			matchesFilter(metadata, { range: { field: "client", gte: 0 } }),
+		).toBe(false);
+		expect(
+			matchesFilter(metadata, {
+				range: { field: "importance", gte: "2025-01-01T00:00:00Z" },
+			}),
+		).toBe(false);
+	});
+});
+
+describe("compareToBound", () => {
+	it("compares numbers", () => {
+		expect(compareToBound(7, 5)).toBeGreaterThan(0);
+		expect(compareToBound(5, 5)).toBe(0);
+		expect(compareToBound(3, 5)).toBeLessThan(0);
+	});
+
+	it("compares ISO 8601 timestamps as dates", () => {
+		expect(
+			compareToBound("2025-06-06T14:30:00Z", "2025-06-06T14:30:00.000Z"),
+		).toBe(0);
+		expect(
+			compareToBound("2025-06-07T00:00:00Z", "2025-06-06T00:00:00Z"),
+		).toBeGreaterThan(0);
+	});
+
+	it("returns NaN when the value is not comparable", () => {
+		expect(compareToBound("7", 5)).toBeNaN();
+		expect(compareToBound(undefined, "2025-06-06T00:00:00Z")).toBeNaN();
+	});
+});
+
+describe("getMetadataField", () => {
+	it("follows dot notation and stops at missing segments", () => {
+		expect(getMetadataField(metadata, "project.name")).toBe("archivenet");
+		expect(getMetadataField(metadata, "client.length")).toBeUndefined();
+		expect(getMetadataField(metadata, "a.b.c")).toBeUndefined();
+	});
+});
+
+describe("searchFiltersSchema", () => {
+	const nest = (depth: number) => {
+		let filters: unknown = { eq: { field: "client", value: "cursor" } };
+		for (let i = 1; i < depth; i++) {
+			filters = { not: filters };
+		}
+		return filters;
+	};
+
+	it("accepts expressions within the nesting limit", () => {
+		expect(searchFiltersSchema.safeParse(nest(10)).success).toBe(true);
+	});
+
+	it("rejects expressions nested too deeply", () => {
+		const result = searchFiltersSchema.safeParse(nest(11));
+
+		expect(result.success).toBe(false);
+		expect(result.error?.issues[0].message).toMatch("at most 10 levels");
+	});
+
+	it("rejects expressions with too many operators", () => {
+		const leaf = { exists: { field: "context" } };
+		const result = searchFiltersSchema.safeParse({
+			or: Array.from({ length: 200 }, () => leaf),
+		});
+
+		expect(result.success).toBe(false);
+	});
+
+	it("refuses very deep input without overflowing the stack", () => {
+		expect(searchFiltersSchema.safeParse(nest(100000)).success).toBe(false);
+	});
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { HnswIndex } from "../src/services/HnswIndex.js";
+import { cosineSimilarity } from "../src/utils/vector.js";
+
+const params = { m: 16, efConstruction: 200, efSearch: 50 };
+
+// Small deterministic PRNG (mulberry32) so the data set is the same on every run
+const random = (seed: number) => {
+	let state = seed;
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+const randomPoints = (count: number, dimensions: number, seed: number) => {
+	const next = random(seed);
+	return Array.from({ length: count }, () =>
+		Array.from({ length: dimensions }, () => next() * 2 - 1),
+	);
+};
+
+const exactNeighbors = (points: number[][], query: number[], k: number) =>
+	points
+		.map((point, id) => ({ id, distance: 1 - cosineSimilarity(query, point) }))
+		.sort((a, b) => a.distance - b.distance || a.id - b.id)
+		.slice(0, k)
+		.map((neighbor) => neighbor.id);
+
+describe("HnswIndex", () => {
+	it("assigns IDs in insertion order", () => {
+		const index = new HnswIndex(params);
+		const points = randomPoints(5, 4, 1);
+
+		expect(points.map((point) => index.insert(point).id)).toEqual([
+			0, 1, 2, 3, 4,
+		]);
+		expect(index.size).toBe(5);
+		expect(index.getPoint(3)).toEqual(points[3]);
+	});
+
+	it("finds an exact match as the nearest neighbour", () => {
+		const index = new HnswIndex(params);
+		const points = randomPoints(200, 8, 2);
+		for (const point of points) {
+			index.insert(point);
+		}
+
+		const [nearest] = index.search(points[42], 1);
+		expect(nearest.id).toBe(42);
+		expect(nearest.distance).toBeCloseTo(0);
+	});
+
+	it("recalls most of the true k nearest neighbours", () => {
+		const index = new HnswIndex(params);
+		const points = randomPoints(1000, 16, 3);
+		for (const point of points) {
+			index.insert(point);
+		}
+
+		const k = 10;
+		const queries = randomPoints(50, 16, 4);
+		let found = 0;
+		for (const query of queries) {
+			const exact = new Set(exactNeighbors(points, query, k));
+			const approximate = index.search(query, k);
+
+			expect(approximate).toHaveLength(k);
+			found += approximate.filter((neighbor) => exact.has(neighbor.id)).length;
+		}
+
+		expect(found / (queries.length * k)).toBeGreaterThanOrEqual(0.95);
+	});
+
+	it("returns neighbours by ascending distance and honours accept", () => {
+		const index = new HnswIndex(params);
+		for (const point of randomPoints(100, 8, 5)) {
+			index.insert(point);
+		}
+
+		const results = index.search(randomPoints(1, 8, 6)[0], 10, 50, (id) =>
+			Boolean(id % 2),
+		);
+		expect(results).toHaveLength(10);
+		expect(results.every((neighbor) => neighbor.id % 2 === 1)).toBe(true);
+		for (let i = 1; i < results.length; i++) {
+			expect(results[i].distance).toBeGreaterThanOrEqual(
+				results[i - 1].distance,
+			);
+		}
+	});
+
+	it("plans inserts without changing the graph", () => {
+		const index = new HnswIndex(params);
+		const points = randomPoints(20, 4, 7);
+		for (const point of points) {
+			index.insert(point);
+		}
+		const before = index.search(points[0], 5);
+
+		index.plan(randomPoints(1, 4, 8)[0]);
+
+		expect(index.size).toBe(20);
+		expect(index.search(points[0], 5)).toEqual(before);
+	});
+
+	it("rebuilds the identical graph from restored insertions", () => {
+		const original = new HnswIndex(params);
+		const replayed = new HnswIndex(params);
+		const points = randomPoints(300, 8, 9);
+		for (const point of points) {
+			const { id, insertion } = original.insert(point);
+			expect(replayed.restore(point, insertion)).toBe(id);
+		}
+
+		for (const query of randomPoints(10, 8, 10)) {
+			expect(replayed.search(query, 10)).toEqual(original.search(query, 10));
+		}
+	});
+
+	it("returns nothing from an empty graph", () => {
+		expect(new HnswIndex(params).search([1, 0], 5)).toEqual([]);
+	});
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type MemoryImportJob,
+	createMemoryImportJob,
+	finishMemoryImportJob,
+	getMemoryImportJob,
+} from "../src/database/models/MemoryImportJob.js";
+import { ImportJobService } from "../src/services/ImportJobService.js";
+import type { MemoryService } from "../src/services/MemoryService.js";
+
+vi.mock("../src/database/models/MemoryImportJob.js", () => ({
+	createMemoryImportJob: vi.fn(),
+	deleteMemoryImportJobs: vi.fn(),
+	finishMemoryImportJob: vi.fn(),
+	getMemoryImportJob: vi.fn(),
+	updateMemoryImportJob: vi.fn(),
+}));
+
+const row = (overrides: Partial<MemoryImportJob> = {}): MemoryImportJob => ({
+	id: "job-1",
+	contractTxId: "contract-a",
+	status: "running",
+	totalLines: 0,
+	processedLines: 0,
+	imported: 0,
+	rejected: 0,
+	reembedded: 0,
+	skipped: 0,
+	failed: 0,
+	errors: [],
+	error: null,
+	createdAt: new Date(),
+	updatedAt: new Date(),
+	finishedAt: null,
+	...overrides,
+});
+
+describe("ImportJobService", () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.mocked(createMemoryImportJob).mockImplementation(
+			async (contractTxId, totalLines) => row({ contractTxId, totalLines }),
+		);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("skips superseded versions and saves the final report", async () => {
+		const importMemory = vi
+			.fn()
+			.mockResolvedValue({ action: "created", reembedded: false });
+		const onFinish = vi.fn();
+		const ndjson = [
+			JSON.stringify({ content: "first version", supersededBy: 2 }),
+			JSON.stringify({ content: "latest version", supersededBy: null }),
+			"{not json",
+		].join("\n");
+
+		const job = await new ImportJobService().startImport(
+			{ importMemory } as unknown as MemoryService,
+			"contract-a",
+			ndjson,
+			onFinish,
+		);
+		await vi.waitFor(() => expect(finishMemoryImportJob).toHaveBeenCalled());
+
+		expect(job).toMatchObject({ status: "running", totalLines: 3 });
+		expect(importMemory).toHaveBeenCalledTimes(1);
+		expect(importMemory.mock.calls[0][0].content).toBe("latest version");
+		expect(onFinish).toHaveBeenCalledOnce();
+
+		const [jobId, progress, error] = vi.mocked(finishMemoryImportJob).mock
+			.calls[0];
+		expect(jobId).toBe("job-1");
+		expect(error).toBeUndefined();
+		expect(progress).toMatchObject({
+			processedLines: 3,
+			imported: 1,
+			skipped: 1,
+			failed: 1,
+		});
+		expect(progress.errors.map((entry) => entry.line)).toEqual([3]);
+	});
+
+	it("reports running jobs that stopped saving progress as failed", async () => {
+		vi.mocked(getMemoryImportJob).mockResolvedValue(
+			row({ updatedAt: new Date(Date.now() - 3 * 60 * 1000) }),
+		);
+
+		const job = await new ImportJobService().getJob("contract-a", "job-1");
+
+		expect(job).toMatchObject({
+			status: "failed",
+			error: "The import was interrupted before it finished",
+		});
+	});
+
+	it("reports a running job that is still saving progress as running", async () => {
+		vi.mocked(getMemoryImportJob).mockResolvedValue(row());
+
+		const job = await new ImportJobService().getJob("contract-a", "job-1");
+
+		expect(job?.status).toBe("running");
+		expect(job?.error).toBeUndefined();
+	});
+
+	it("releases the store when the job can't be created", async () => {
+		vi.mocked(createMemoryImportJob).mockRejectedValue(new Error("db down"));
+		const onFinish = vi.fn();
+
+		await expect(
+			new ImportJobService().startImport(
+				{} as MemoryService,
+				"contract-a",
+				"{}",
+				onFinish,
+			),
+		).rejects.toThrow("Failed to start import: db down");
+		expect(onFinish).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryVectorStore } from "../src/services/InMemoryVectorStore.js";
+import {
+	LexicalIndex,
+	LexicalIndexRegistry,
+	tokenize,
+} from "../src/services/LexicalIndex.js";
+
+describe("tokenize", () => {
+	it("lowercases text and splits on non-word characters", () => {
+		expect(tokenize("User's favorite COLOR is blue!")).toEqual([
+			"user",
+			"s",
+			"favorite",
+			"color",
+			"is",
+			"blue",
+		]);
+	});
+
+	it("keeps compound tokens whole and indexes their parts", () => {
+		expect(tokenize("ERR_CONN-404 in v1.2.3")).toEqual([
+			"err_conn-404",
+			"err",
+			"conn",
+			"404",
+			"in",
+			"v1.2.3",
+			"v1",
+			"2",
+			"3",
+		]);
+	});
+
+	it("handles non-Latin scripts", () => {
+		expect(tokenize("Größe café 東京")).toEqual(["größe", "café", "東京"]);
+	});
+
+	it("returns nothing for punctuation only", () => {
+		expect(tokenize("... --- !!!")).toEqual([]);
+	});
+});
+
+describe("LexicalIndex", () => {
+	const build = (contents: string[]) => {
+		const index = new LexicalIndex();
+		contents.forEach((content, id) => index.add(id, { content }));
+		return index;
+	};
+
+	it("ranks memories by BM25 and skips non-matching ones", () => {
+		const index = build([
+			"the deploy failed with ERR_CONN-404",
+			"the user likes blue",
+			"deploy deploy deploy pipeline",
+		]);
+
+		const results = index.search("deploy");
+		expect(results.map((result) => result.id)).toEqual([2, 0]);
+		expect(results[0].score).toBeGreaterThan(results[1].score);
+	});
+
+	it("finds exact identifiers and their parts", () => {
+		const index = build(["failed with ERR_CONN-404", "status 200 ok"]);
+
+		expect(index.search("err_conn-404").map((result) => result.id)).toEqual([
+			0,
+		]);
+		expect(index.search("404").map((result) => result.id)).toEqual([0]);
+	});
+
+	it("weights rare terms above common ones", () => {
+		const index = build(["blue sky", "blue sea", "blue car", "red car"]);
+
+		const [best] = index.search("blue red");
+		expect(best.id).toBe(3);
+	});
+
+	it("normalizes for document length", () => {
+		const index = build([
+			"coffee",
+			"coffee with a long story about mornings, trains and weather",
+		]);
+
+		const [best] = index.search("coffee");
+		expect(best.id).toBe(0);
+	});
+
+	it("replaces and removes documents", () => {
+		const index = build(["alpha", "beta"]);
+
+		index.add(0, { content: "gamma" });
+		expect(index.search("alpha")).toEqual([]);
+		expect(index.search("gamma").map((result) => result.id)).toEqual([0]);
+
+		index.remove(1);
+		expect(index.search("beta")).toEqual([]);
+		expect(index.size).toBe(1);
+	});
+
+	it("does not index memories without content", () => {
+		const index = new LexicalIndex();
+		index.add(0, { parentId: 1, passage: "text" });
+
+		expect(index.size).toBe(0);
+		expect(index.search("text")).toEqual([]);
+	});
+});
+
+describe("LexicalIndexRegistry", () => {
+	const params = { m: 8, efConstruction: 32, efSearch: 16 };
+	const write = (store: InMemoryVectorStore, content: string) =>
+		store.insertVector({ vector: [content.length, 1], metadata: { content } });
+
+	it("builds an index from the contract on first use", async () => {
+		const registry = new LexicalIndexRegistry();
+		const store = new InMemoryVectorStore("memory:lexical-build", params);
+		await write(store, "deploy failed");
+		await write(store, "user likes blue");
+
+		const index = await registry.forContract(store);
+
+		expect(index.size).toBe(2);
+		expect(index.scannedUpTo).toBe(2);
+		expect(index.search("blue").map((result) => result.id)).toEqual([1]);
+	});
+
+	it("catches up with writes made since the last lookup", async () => {
+		const registry = new LexicalIndexRegistry();
+		const store = new InMemoryVectorStore("memory:lexical-catch-up", params);
+		await write(store, "alpha");
+		await registry.forContract(store);
+
+		// Written behind the registry's back, e.g. by another API instance
+		await write(store, "beta");
+		await store.deleteVector(1);
+		await write(store, "gamma");
+
+		const index = await registry.forContract(store);
+		expect(index.scannedUpTo).toBe(3);
+		expect(index.search("gamma").map((result) => result.id)).toEqual([2]);
+	});
+
+	it("shares one scan between concurrent lookups", async () => {
+		const registry = new LexicalIndexRegistry();
+		const store = new InMemoryVectorStore("memory:lexical-shared", params);
+		await write(store, "alpha");
+
+		const [first, second] = await Promise.all([
+			registry.forContract(store),
+			registry.forContract(store),
+		]);
+
+		expect(second).toBe(first);
+		expect(first.size).toBe(1);
+	});
+
+	it("rebuilds a fresh index on request", async () => {
+		const registry = new LexicalIndexRegistry();
+		const store = new InMemoryVectorStore("memory:lexical-rebuild", params);
+		await write(store, "alpha");
+		const before = await registry.forContract(store);
+
+		const after = await registry.rebuild(store);
+
+		expect(after).not.toBe(before);
+		expect(after.size).toBe(1);
+	});
+});
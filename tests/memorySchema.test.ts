@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+	createMemorySchema,
+	patchMemorySchema,
+} from "../src/schemas/memory.js";
+
+describe("memory metadata", () => {
+	it("keeps custom keys so they can be filtered on", () => {
+		const result = createMemorySchema.parse({
+			content: "Atlas ships on Friday",
+			metadata: { tags: ["release"], project: { name: "atlas" }, team: "core" },
+		});
+
+		expect(result.metadata).toMatchObject({
+			tags: ["release"],
+			project: { name: "atlas" },
+			team: "core",
+		});
+	});
+
+	it("still validates the known keys", () => {
+		expect(
+			createMemorySchema.safeParse({
+				content: "Atlas ships on Friday",
+				metadata: { importance: 11 },
+			}).success,
+		).toBe(false);
+	});
+
+	it("rejects keys the API writes itself", () => {
+		for (const metadata of [{ parentId: 3 }, { collection: "work" }]) {
+			const result = createMemorySchema.safeParse({
+				content: "Atlas ships on Friday",
+				metadata,
+			});
+
+			expect(result.success).toBe(false);
+			expect(result.error?.issues[0].message).toMatch("are reserved");
+		}
+		expect(
+			patchMemorySchema.safeParse({ metadata: { supersedes: 1 } }).success,
+		).toBe(false);
+	});
+});
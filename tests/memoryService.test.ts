@@ -0,0 +1,573 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryExpiry } from "../src/database/models/MemoryExpiry.js";
+import {
+	createMemoryRevision,
+	getSupersededVectorIds,
+} from "../src/database/models/MemoryRevision.js";
+import { getMemorySettings } from "../src/database/models/MemorySettings.js";
+import { listTombstonedVectorIds } from "../src/database/models/MemoryTombstone.js";
+import type { CreateMemory, Ranking } from "../src/schemas/memory.js";
+import { embeddingService } from "../src/services/EmbeddingService.js";
+import { InMemoryVectorStore } from "../src/services/InMemoryVectorStore.js";
+import { MemoryService } from "../src/services/MemoryService.js";
+import { tokenCounter } from "../src/services/TokenCounter.js";
+
+const { embeddings, revisions } = vi.hoisted(() => ({
+	embeddings: new Map<string, number[]>(), // Embedding of each known text
+	revisions: new Map<number, number>(), // Superseded memory -> replacing memory
+}));
+
+vi.mock("../src/database/models/MemoryCollection.js", () => ({
+	deleteMemoryCollection: vi.fn(),
+	getMemoryCollection: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryExpiry.js", () => ({
+	createMemoryExpiry: vi.fn(),
+	deleteMemoryExpiries: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryPurge.js", () => ({
+	abortMemoryPurge: vi.fn(),
+	completeMemoryPurge: vi.fn(),
+	getMemoryPurge: vi.fn(),
+	renewMemoryPurge: vi.fn(),
+	startMemoryPurge: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryRevision.js", () => ({
+	createMemoryRevision: vi.fn(),
+	deleteMemoryRevisions: vi.fn(),
+	getSupersededVectorIds: vi.fn(),
+}));
+vi.mock("../src/database/models/MemorySettings.js", () => ({
+	getMemorySettings: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryTombstone.js", () => ({
+	createMemoryTombstone: vi.fn(),
+	deleteMemoryTombstones: vi.fn(),
+	listTombstonedVectorIds: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryWriteJob.js", () => ({
+	listUnfinishedMemoryWriteJobIds: vi.fn(),
+	redirectMemoryWriteJobs: vi.fn(),
+}));
+vi.mock("../src/services/EmbeddingService.js", () => ({
+	embeddingService: {
+		batchTextToEmbeddings: vi.fn(),
+		chunkText: vi.fn(),
+		countTokens: vi.fn(),
+		getInfo: vi.fn(),
+		textToEmbeddings: vi.fn(),
+	},
+}));
+vi.mock("../src/services/TokenCounter.js", () => ({
+	tokenCounter: { count: vi.fn(), getName: vi.fn() },
+}));
+
+// Unit vector whose cosine similarity with [1, 0, 0] is `similarity`
+const similarTo = (similarity: number) => [
+	similarity,
+	Math.sqrt(1 - similarity ** 2),
+	0,
+];
+
+const embed = (text: string) => embeddings.get(text) ?? [0, 0, 1];
+
+const createService = () =>
+	new MemoryService(
+		new InMemoryVectorStore("memory:test", {
+			m: 8,
+			efConstruction: 64,
+			efSearch: 32,
+		}),
+	);
+
+describe("MemoryService", () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+		embeddings.clear();
+		revisions.clear();
+
+		vi.mocked(embeddingService.chunkText).mockImplementation(async (text) => [
+			text,
+		]);
+		vi.mocked(embeddingService.textToEmbeddings).mockImplementation(
+			async (text) => ({ embeddings: embed(text) }) as never,
+		);
+		vi.mocked(embeddingService.batchTextToEmbeddings).mockImplementation(
+			async (texts) =>
+				texts.map((text) => ({ embeddings: embed(text) })) as never,
+		);
+		vi.mocked(embeddingService.getInfo).mockReturnValue({
+			model: "test-model",
+			dimensions: 3,
+			isInitialized: true,
+		});
+		vi.mocked(listTombstonedVectorIds).mockResolvedValue([]);
+		vi.mocked(getSupersededVectorIds).mockImplementation(
+			async () => new Map(revisions),
+		);
+		vi.mocked(createMemoryRevision).mockImplementation(
+			async (_contractTxId, vectorId, supersededBy) => {
+				revisions.set(vectorId, supersededBy);
+				return true;
+			},
+		);
+	});
+
+	describe("dedupe", () => {
+		// Stores a memory at [1, 0, 0], then writes `content` at the given similarity to it
+		const writeNearDuplicate = async (
+			similarity: number,
+			data: Omit<CreateMemory, "content"> = {},
+		) => {
+			embeddings.set("original", [1, 0, 0]);
+			embeddings.set("duplicate", similarTo(similarity));
+
+			const service = createService();
+			await service.createMemory({
+				content: "original",
+				metadata: { tags: ["a"], importance: 4, client: "cli" },
+			});
+			const result = await service.createMemory({
+				content: "duplicate",
+				...data,
+			});
+			return { service, result };
+		};
+
+		it("rejects content at or above the threshold", async () => {
+			const { service, result } = await writeNearDuplicate(0.97, {
+				dedupe: "reject",
+			});
+
+			expect(result).toMatchObject({
+				success: false,
+				action: "rejected",
+				memoryId: 0,
+				existingMemoryId: 0,
+			});
+			expect(result.similarity).toBeCloseTo(0.97);
+			expect((await service.getStats()).totalMemories).toBe(1);
+		});
+
+		it("stores content below the threshold whatever the policy", async () => {
+			const { result } = await writeNearDuplicate(0.9, { dedupe: "reject" });
+
+			expect(result).toMatchObject({ success: true, action: "created" });
+			expect(result.existingMemoryId).toBeUndefined();
+		});
+
+		it("merges metadata into a new version of the duplicate", async () => {
+			const { service, result } = await writeNearDuplicate(0.97, {
+				dedupe: "merge",
+				metadata: { tags: ["a", "b"], importance: 7, client: "web" },
+			});
+
+			expect(result).toMatchObject({
+				action: "merged",
+				memoryId: 1,
+				existingMemoryId: 0,
+			});
+			expect(revisions.get(0)).toBe(1);
+
+			const merged = await service.getMemory(1);
+			expect(merged?.content).toBe("original");
+			expect(merged?.metadata).toMatchObject({
+				tags: ["a", "b"],
+				importance: 7, // The higher importance wins
+				client: "cli", // Other fields keep the existing value
+				version: 2,
+				supersedes: 0,
+			});
+		});
+
+		it("inserts a duplicate under the insert policy, reporting the existing memory", async () => {
+			const { result } = await writeNearDuplicate(0.97, { dedupe: "insert" });
+
+			expect(result).toMatchObject({
+				action: "created",
+				memoryId: 1,
+				existingMemoryId: 0,
+			});
+		});
+
+		it("skips the duplicate check without a policy", async () => {
+			const { result } = await writeNearDuplicate(0.99);
+
+			expect(result).toMatchObject({ action: "created", memoryId: 1 });
+			expect(result.existingMemoryId).toBeUndefined();
+		});
+	});
+
+	describe("expiry", () => {
+		const now = new Date("2026-01-01T00:00:00.000Z");
+
+		beforeEach(() => {
+			vi.useFakeTimers({ toFake: ["Date"], now });
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		const storedMetadata = async (metadata: CreateMemory["metadata"]) => {
+			const service = createService();
+			const { memoryId } = await service.createMemory({
+				content: "expiring",
+				metadata,
+			});
+			return (await service.getMemory(memoryId))?.metadata;
+		};
+
+		it("turns ttl_seconds into an expires_at counted from the write", async () => {
+			const metadata = await storedMetadata({ ttl_seconds: 60 });
+
+			expect(metadata?.expires_at).toBe("2026-01-01T00:01:00.000Z");
+			expect(metadata).not.toHaveProperty("ttl_seconds");
+			expect(createMemoryExpiry).toHaveBeenCalledWith(
+				"memory:test",
+				0,
+				new Date("2026-01-01T00:01:00.000Z"),
+			);
+		});
+
+		it("keeps an expires_at earlier than the TTL", async () => {
+			const metadata = await storedMetadata({
+				ttl_seconds: 3600,
+				expires_at: "2026-01-01T00:10:00.000Z",
+			});
+
+			expect(metadata?.expires_at).toBe("2026-01-01T00:10:00.000Z");
+		});
+
+		it("uses the TTL when it ends before expires_at", async () => {
+			const metadata = await storedMetadata({
+				ttl_seconds: 60,
+				expires_at: "2026-01-02T00:00:00.000Z",
+			});
+
+			expect(metadata?.expires_at).toBe("2026-01-01T00:01:00.000Z");
+		});
+
+		it("hides memories once they expire", async () => {
+			const service = createService();
+			const { memoryId } = await service.createMemory({
+				content: "expiring",
+				metadata: { ttl_seconds: 60 },
+			});
+
+			expect(await service.getMemory(memoryId)).not.toBeNull();
+			vi.setSystemTime(new Date("2026-01-01T00:01:00.000Z"));
+			expect(await service.getMemory(memoryId)).toBeNull();
+		});
+	});
+
+	describe("weighted ranking", () => {
+		const now = new Date("2026-01-10T00:00:00.000Z");
+		const twoDaysAgo = new Date("2026-01-08T00:00:00.000Z");
+
+		beforeEach(() => {
+			vi.useFakeTimers({ toFake: ["Date"], now: twoDaysAgo });
+			embeddings.set("query", [1, 0, 0]);
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		// Three memories that each win on one ranking component
+		const seed = async (userId?: string) => {
+			const service = new MemoryService(
+				new InMemoryVectorStore("memory:test", {
+					m: 8,
+					efConstruction: 64,
+					efSearch: 32,
+				}),
+				userId,
+			);
+			const memories = [
+				{ content: "similar", similarity: 0.95, importance: 2, at: twoDaysAgo },
+				{
+					content: "important",
+					similarity: 0.6,
+					importance: 10,
+					at: twoDaysAgo,
+				},
+				{ content: "recent", similarity: 0.6, importance: 2, at: now },
+			];
+			for (const { content, similarity, importance, at } of memories) {
+				embeddings.set(content, similarTo(similarity));
+				vi.setSystemTime(at);
+				await service.createMemory({ content, metadata: { importance } });
+			}
+			return service;
+		};
+
+		const rankedContents = async (
+			service: MemoryService,
+			ranking?: Ranking,
+		) => {
+			const { memories } = await service.searchMemories({
+				query: "query",
+				k: 3,
+				include_history: false,
+				mode: "vector",
+				exact: false,
+				ranking,
+			});
+			return memories.map((memory) => memory.content);
+		};
+
+		it("orders by the component that carries the weight", async () => {
+			const service = await seed();
+			const only = (component: "similarity" | "recency" | "importance") => ({
+				similarity: 0,
+				recency: 0,
+				importance: 0,
+				[component]: 1,
+			});
+
+			expect((await rankedContents(service, only("similarity")))[0]).toBe(
+				"similar",
+			);
+			expect((await rankedContents(service, only("importance")))[0]).toBe(
+				"important",
+			);
+			expect((await rankedContents(service, only("recency")))[0]).toBe(
+				"recent",
+			);
+		});
+
+		it("blends the components into a total in [0, 1]", async () => {
+			const service = await seed();
+
+			const { memories } = await service.searchMemories({
+				query: "query",
+				k: 3,
+				include_history: false,
+				mode: "vector",
+				exact: false,
+				ranking: {
+					similarity: 1,
+					recency: 1,
+					importance: 1,
+					half_life_hours: 48,
+				},
+			});
+
+			const important = memories.find(
+				(memory) => memory.content === "important",
+			);
+			expect(important?.ranking).toMatchObject({
+				importance: 1 / 3, // Top importance, a third of the weight
+				recency: 0.5 / 3, // One half-life old
+			});
+			for (const { ranking } of memories) {
+				expect(ranking?.total).toBeGreaterThanOrEqual(0);
+				expect(ranking?.total).toBeLessThanOrEqual(1);
+				expect(ranking?.total).toBeCloseTo(
+					(ranking?.similarity ?? 0) +
+						(ranking?.recency ?? 0) +
+						(ranking?.importance ?? 0),
+				);
+			}
+			expect(memories.map((memory) => memory.ranking?.total)).toEqual(
+				[...memories.map((memory) => memory.ranking?.total)].sort(
+					(a, b) => (b ?? 0) - (a ?? 0),
+				),
+			);
+		});
+
+		it("applies the tenant's defaults, overridden by the request", async () => {
+			vi.mocked(getMemorySettings).mockResolvedValue({
+				ranking: { enabled: true, similarity: 0, recency: 0, importance: 1 },
+			} as never);
+			const service = await seed("user-1");
+
+			expect((await rankedContents(service))[0]).toBe("important");
+			expect(
+				(await rankedContents(service, { importance: 0, recency: 1 }))[0],
+			).toBe("recent");
+		});
+	});
+
+	describe("context packs", () => {
+		beforeEach(() => {
+			vi.useFakeTimers({
+				toFake: ["Date"],
+				now: new Date("2026-01-01T00:00:00.000Z"),
+			});
+			embeddings.set("query", [1, 0, 0]);
+			// One token per word keeps the budgets easy to follow
+			vi.mocked(tokenCounter.count).mockImplementation(
+				async (text) => text.split(/\s+/).filter(Boolean).length,
+			);
+			vi.mocked(tokenCounter.getName).mockReturnValue("words");
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		// Stores memories, most similar to the query first
+		const seed = async (contents: string[]) => {
+			const service = createService();
+			for (const [i, content] of contents.entries()) {
+				embeddings.set(content, similarTo(0.9 - i * 0.1));
+				await service.createMemory({ content });
+			}
+			return service;
+		};
+
+		const pack = (service: MemoryService, maxTokens: number) =>
+			service.buildContext({
+				query: "query",
+				max_tokens: maxTokens,
+				k: 20,
+				mode: "vector",
+				exact: false,
+			});
+
+		// The header takes 5 tokens and each entry 2 more than its content ("[n] (date)")
+		it("packs memories in relevance order within the budget", async () => {
+			const service = await seed(["likes green tea", "works from Lisbon"]);
+
+			const result = await pack(service, 100);
+
+			expect(result.context).toBe(
+				[
+					"Relevant memories (cite as [n]):",
+					"[1] (2026-01-01) likes green tea",
+					"[2] (2026-01-01) works from Lisbon",
+				].join("\n"),
+			);
+			expect(result).toMatchObject({
+				tokens: 15,
+				maxTokens: 100,
+				tokenizer: "words",
+				omitted: 0,
+			});
+			expect(result.citations.map((citation) => citation.memoryId)).toEqual([
+				0, 1,
+			]);
+		});
+
+		it("skips memories that don't fit and keeps packing smaller ones", async () => {
+			const service = await seed([
+				"a long memory that takes up far too many tokens to fit",
+				"short one",
+			]);
+
+			const result = await pack(service, 10);
+
+			expect(result.context).toBe(
+				"Relevant memories (cite as [n]):\n[1] (2026-01-01) short one",
+			);
+			expect(result.tokens).toBe(9);
+			expect(result.omitted).toBe(1);
+			expect(result.citations).toMatchObject([{ ref: 1, memoryId: 1 }]);
+		});
+
+		it("includes identical content only once", async () => {
+			const service = await seed(["Likes green tea", "likes  green tea "]);
+
+			const result = await pack(service, 100);
+
+			expect(result.citations).toHaveLength(1);
+			expect(result.duplicates).toBe(1);
+		});
+
+		it("returns an empty block when no memory fits", async () => {
+			const service = await seed(["likes green tea"]);
+
+			const result = await pack(service, 9);
+
+			expect(result).toMatchObject({
+				context: "",
+				tokens: 0,
+				citations: [],
+				omitted: 1,
+			});
+		});
+	});
+
+	describe("listing", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		// Memories written a minute apart, with the given importances
+		const seed = async (importances: number[]) => {
+			vi.useFakeTimers({ toFake: ["Date"] });
+			const service = createService();
+			for (const [i, importance] of importances.entries()) {
+				vi.setSystemTime(new Date(Date.UTC(2026, 0, 1, 0, i)));
+				await service.createMemory({
+					content: `memory ${i}`,
+					metadata: { importance },
+				});
+			}
+			return service;
+		};
+
+		const listAll = async (
+			service: MemoryService,
+			options: { sort: "createdAt" | "importance"; order: "asc" | "desc" },
+		) => {
+			const ids: number[] = [];
+			let cursor: string | undefined;
+			do {
+				const page = await service.listMemories({
+					...options,
+					limit: 2,
+					cursor,
+					include_history: false,
+				});
+				expect(page.memories.length).toBeLessThanOrEqual(2);
+				expect(page.total).toBe(5);
+				ids.push(...page.memories.map((memory) => memory.id));
+				cursor = page.nextCursor ?? undefined;
+			} while (cursor);
+			return ids;
+		};
+
+		it("pages through memories in creation order", async () => {
+			const service = await seed([5, 5, 5, 5, 5]);
+
+			expect(
+				await listAll(service, { sort: "createdAt", order: "desc" }),
+			).toEqual([4, 3, 2, 1, 0]);
+			expect(
+				await listAll(service, { sort: "createdAt", order: "asc" }),
+			).toEqual([0, 1, 2, 3, 4]);
+		});
+
+		it("pages through memories by importance, ties broken by ID", async () => {
+			const service = await seed([3, 9, 3, 1, 9]);
+
+			expect(
+				await listAll(service, { sort: "importance", order: "desc" }),
+			).toEqual([4, 1, 2, 0, 3]);
+		});
+
+		it("keeps pages stable when memories are written in between", async () => {
+			const service = await seed([5, 5, 5, 5, 5]);
+			const first = await service.listMemories({
+				limit: 2,
+				sort: "createdAt",
+				order: "asc",
+				include_history: false,
+			});
+
+			await service.createMemory({ content: "newer" });
+			const second = await service.listMemories({
+				limit: 2,
+				sort: "createdAt",
+				order: "asc",
+				include_history: false,
+				cursor: first.nextCursor ?? undefined,
+			});
+
+			expect(second.memories.map((memory) => memory.id)).toEqual([2, 3]);
+		});
+	});
+});
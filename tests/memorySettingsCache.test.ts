@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type MemorySettings,
+	getMemorySettings,
+} from "../src/database/models/MemorySettings.js";
+import { MemorySettingsCache } from "../src/services/MemorySettingsCache.js";
+
+vi.mock("../src/database/models/MemorySettings.js", () => ({
+	getMemorySettings: vi.fn(),
+}));
+
+const settings = (importance: number): MemorySettings => ({
+	id: "settings-1",
+	userId: "user-1",
+	ranking: { enabled: true, importance },
+	updatedAt: new Date(),
+});
+
+describe("MemorySettingsCache", () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.useFakeTimers({ toFake: ["Date"] });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("reuses settings until the TTL runs out", async () => {
+		const cache = new MemorySettingsCache();
+		vi.mocked(getMemorySettings)
+			.mockResolvedValueOnce(settings(1))
+			.mockResolvedValueOnce(settings(2));
+
+		expect((await cache.get("user-1"))?.ranking?.importance).toBe(1);
+		vi.advanceTimersByTime(29 * 1000);
+		expect((await cache.get("user-1"))?.ranking?.importance).toBe(1);
+		expect(getMemorySettings).toHaveBeenCalledTimes(1);
+
+		vi.advanceTimersByTime(1000);
+		expect((await cache.get("user-1"))?.ranking?.importance).toBe(2);
+		expect(getMemorySettings).toHaveBeenCalledTimes(2);
+	});
+
+	it("caches tenants without saved settings too", async () => {
+		const cache = new MemorySettingsCache();
+
+		expect(await cache.get("user-1")).toBeUndefined();
+		expect(await cache.get("user-1")).toBeUndefined();
+		expect(getMemorySettings).toHaveBeenCalledTimes(1);
+	});
+
+	it("serves saved settings right away", async () => {
+		const cache = new MemorySettingsCache();
+		vi.mocked(getMemorySettings).mockResolvedValue(settings(1));
+		await cache.get("user-1");
+
+		cache.set("user-1", settings(3));
+
+		expect((await cache.get("user-1"))?.ranking?.importance).toBe(3);
+		expect(getMemorySettings).toHaveBeenCalledTimes(1);
+	});
+
+	it("retries a failed read on the next request", async () => {
+		const cache = new MemorySettingsCache();
+		vi.mocked(getMemorySettings)
+			.mockRejectedValueOnce(new Error("db down"))
+			.mockResolvedValueOnce(settings(1));
+
+		await expect(cache.get("user-1")).rejects.toThrow("db down");
+		expect((await cache.get("user-1"))?.ranking?.importance).toBe(1);
+	});
+
+	it("drops the oldest tenants beyond its capacity", async () => {
+		const cache = new MemorySettingsCache();
+		for (let i = 0; i <= 1000; i++) {
+			await cache.get(`user-${i}`);
+		}
+		vi.mocked(getMemorySettings).mockClear();
+
+		await cache.get("user-1000");
+		expect(getMemorySettings).not.toHaveBeenCalled();
+		await cache.get("user-0");
+		expect(getMemorySettings).toHaveBeenCalledWith("user-0");
+	});
+});
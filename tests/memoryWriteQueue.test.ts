@@ -0,0 +1,228 @@
+import httpErrors from "http-errors";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMemoryPurge } from "../src/database/models/MemoryPurge.js";
+import {
+	type MemoryWriteJob,
+	claimMemoryWriteJobs,
+	completeMemoryWriteJob,
+	createMemoryWriteJob,
+	deferMemoryWriteJobs,
+	failMemoryWriteJob,
+	redirectMemoryWriteJobs,
+	releaseMemoryWriteJobs,
+	requeueStaleMemoryWriteJobs,
+	touchMemoryWriteJobs,
+} from "../src/database/models/MemoryWriteJob.js";
+import { assertMemoriesWritable } from "../src/services/MemoryService.js";
+import { MemoryWriteQueue } from "../src/services/MemoryWriteQueue.js";
+import { withVectorStore } from "../src/services/VectorStore.js";
+
+const { createMemories } = vi.hoisted(() => ({ createMemories: vi.fn() }));
+
+vi.mock("../src/database/models/MemoryWriteJob.js", () => ({
+	claimMemoryWriteJobs: vi.fn(),
+	completeMemoryWriteJob: vi.fn(),
+	createMemoryWriteJob: vi.fn(),
+	deferMemoryWriteJobs: vi.fn(),
+	failMemoryWriteJob: vi.fn(),
+	getMemoryWriteJob: vi.fn(),
+	listUnfinishedMemoryWriteJobIds: vi.fn(),
+	redirectMemoryWriteJobs: vi.fn(),
+	releaseMemoryWriteJobs: vi.fn(),
+	requeueStaleMemoryWriteJobs: vi.fn(),
+	touchMemoryWriteJobs: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryPurge.js", () => ({
+	getMemoryPurge: vi.fn(),
+}));
+vi.mock("../src/database/models/MemoryCollection.js", () => ({
+	getMemoryCollection: vi.fn(),
+}));
+vi.mock("../src/services/MemoryService.js", () => ({
+	MemoryService: class {
+		createMemories = createMemories;
+	},
+	assertMemoriesWritable: vi.fn(),
+}));
+vi.mock("../src/services/VectorStore.js", () => ({
+	withVectorStore: vi.fn(),
+}));
+vi.mock("../src/services/EmbeddingService.js", () => ({
+	embeddingService: { textToEmbeddings: vi.fn() },
+}));
+
+const job = (
+	id: string,
+	overrides: Partial<MemoryWriteJob> = {},
+): MemoryWriteJob => ({
+	id,
+	contractTxId: "contract-a",
+	userId: "user-1",
+	status: "running",
+	request: { content: `memory ${id}` } as MemoryWriteJob["request"],
+	result: null,
+	error: null,
+	attempts: 1,
+	runAfter: new Date(),
+	createdAt: new Date(),
+	updatedAt: new Date(),
+	completedAt: null,
+	...overrides,
+});
+
+// Claim the given jobs once, then find the queue empty
+const claimOnce = (jobs: MemoryWriteJob[]) =>
+	vi.mocked(claimMemoryWriteJobs).mockResolvedValueOnce(jobs);
+
+describe("MemoryWriteQueue", () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.mocked(claimMemoryWriteJobs).mockResolvedValue([]);
+		vi.mocked(requeueStaleMemoryWriteJobs).mockResolvedValue(0);
+		vi.mocked(touchMemoryWriteJobs).mockResolvedValue();
+		vi.mocked(withVectorStore).mockImplementation((_contractId, task) =>
+			task({} as never),
+		);
+		createMemories.mockImplementation(async ({ memories }) => ({
+			results: memories.map((_: unknown, index: number) => ({
+				index,
+				status: "created",
+				memoryId: index,
+			})),
+		}));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("writes claimed jobs as one batch per contract and tenant", async () => {
+		claimOnce([job("1"), job("2", { contractTxId: "contract-b" }), job("3")]);
+
+		await new MemoryWriteQueue().process();
+
+		expect(createMemories).toHaveBeenCalledTimes(2);
+		expect(createMemories.mock.calls[0][0].memories).toHaveLength(2);
+		expect(vi.mocked(completeMemoryWriteJob).mock.calls).toEqual([
+			["1", { action: "created", memoryId: 0 }],
+			["3", { action: "created", memoryId: 1 }],
+			["2", { action: "created", memoryId: 0 }],
+		]);
+	});
+
+	it("retries failed writes with exponential backoff, then fails them", async () => {
+		claimOnce([
+			job("1", { attempts: 1 }),
+			job("2", { attempts: 2 }),
+			job("3", { attempts: 3 }),
+		]);
+		createMemories.mockRejectedValue(new Error("gateway timeout"));
+
+		await new MemoryWriteQueue().process();
+
+		expect(vi.mocked(releaseMemoryWriteJobs).mock.calls).toEqual([
+			[["1"], 30 * 1000],
+			[["2"], 60 * 1000],
+		]);
+		expect(failMemoryWriteJob).toHaveBeenCalledWith("3", "gateway timeout");
+		expect(completeMemoryWriteJob).not.toHaveBeenCalled();
+	});
+
+	it("retries only the items of a batch that failed", async () => {
+		claimOnce([job("1"), job("2")]);
+		createMemories.mockResolvedValue({
+			results: [
+				{ index: 0, status: "created", memoryId: 7 },
+				{ index: 1, status: "failed", error: "embedding failed" },
+			],
+		});
+
+		await new MemoryWriteQueue().process();
+
+		expect(completeMemoryWriteJob).toHaveBeenCalledWith("1", {
+			action: "created",
+			memoryId: 7,
+		});
+		expect(releaseMemoryWriteJobs).toHaveBeenCalledWith(["2"], 30 * 1000);
+	});
+
+	it("requeues stale jobs at most once per stale period", async () => {
+		const queue = new MemoryWriteQueue();
+
+		await queue.process();
+		await queue.process();
+
+		expect(requeueStaleMemoryWriteJobs).toHaveBeenCalledTimes(1);
+		const [runningBefore] = vi.mocked(requeueStaleMemoryWriteJobs).mock
+			.calls[0];
+		expect(Date.now() - runningBefore.getTime()).toBeGreaterThanOrEqual(
+			10 * 60 * 1000,
+		);
+	});
+
+	it("heartbeats jobs while their batch is being written", async () => {
+		vi.useFakeTimers();
+		claimOnce([job("1"), job("2")]);
+		let finish = () => {};
+		createMemories.mockReturnValue(
+			new Promise((resolve) => {
+				finish = () => resolve({ results: [] });
+			}),
+		);
+
+		const run = new MemoryWriteQueue().process();
+		await vi.advanceTimersByTimeAsync(6 * 60 * 1000);
+		expect(vi.mocked(touchMemoryWriteJobs).mock.calls).toEqual([
+			[["1", "2"]],
+			[["1", "2"]],
+		]);
+
+		finish();
+		await run;
+		await vi.advanceTimersByTimeAsync(6 * 60 * 1000);
+		expect(touchMemoryWriteJobs).toHaveBeenCalledTimes(2);
+	});
+
+	it("holds writes to a contract being purged and redirects those of a purged one", async () => {
+		claimOnce([job("1"), job("2", { contractTxId: "contract-b" })]);
+		vi.mocked(getMemoryPurge).mockImplementation(async (contractTxId) =>
+			contractTxId === "contract-a"
+				? ({ replacedBy: null } as never)
+				: ({ replacedBy: "contract-c" } as never),
+		);
+
+		await new MemoryWriteQueue().process();
+
+		expect(createMemories).not.toHaveBeenCalled();
+		expect(deferMemoryWriteJobs).toHaveBeenCalledWith(["1"], 5 * 1000);
+		expect(deferMemoryWriteJobs).toHaveBeenCalledWith(["2"]);
+		expect(redirectMemoryWriteJobs).toHaveBeenCalledWith(
+			"contract-b",
+			"contract-c",
+		);
+	});
+
+	it("holds a batch refused because a purge started meanwhile", async () => {
+		claimOnce([job("1")]);
+		createMemories.mockRejectedValue(new httpErrors.Locked());
+
+		await new MemoryWriteQueue().process();
+
+		expect(deferMemoryWriteJobs).toHaveBeenCalledWith(["1"], 5 * 1000);
+		expect(releaseMemoryWriteJobs).not.toHaveBeenCalled();
+		expect(failMemoryWriteJob).not.toHaveBeenCalled();
+	});
+
+	it("refuses to queue writes to memories being purged", async () => {
+		vi.mocked(assertMemoriesWritable).mockRejectedValue(
+			new httpErrors.Locked("Memories are being purged, retry shortly"),
+		);
+
+		await expect(
+			new MemoryWriteQueue().enqueue("contract-a", "user-1", {
+				content: "hello",
+			} as MemoryWriteJob["request"]),
+		).rejects.toThrow("Memories are being purged");
+		expect(createMemoryWriteJob).not.toHaveBeenCalled();
+	});
+});
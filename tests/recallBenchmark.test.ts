@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryVectorStore } from "../src/services/InMemoryVectorStore.js";
+import {
+	RecallBenchmarkService,
+	recallAtK,
+} from "../src/services/RecallBenchmark.js";
+import type { VectorSearchResult } from "../src/services/VectorStore.js";
+
+const params = { m: 8, efConstruction: 64, efSearch: 32 };
+
+const point = (i: number) => [Math.cos(i), Math.sin(i), (i % 5) / 5];
+
+const storeWith = async (count: number) => {
+	const store = new InMemoryVectorStore("memory:benchmark", params);
+	for (let i = 0; i < count; i++) {
+		await store.insertVector({ vector: point(i) });
+	}
+	return store;
+};
+
+describe("recallAtK", () => {
+	const points = new Map([
+		[1, [1, 0]],
+		[2, [0, 1]],
+		[3, [0, 1]], // Same distance from the query as 2
+		[4, [-1, 0]],
+	]);
+	const exact = [
+		{ id: 1, distance: 0 },
+		{ id: 2, distance: 1 },
+	];
+
+	it("is the share of the true neighbours found", () => {
+		expect(recallAtK([1, 0], [1, 2], exact, points)).toBe(1);
+		expect(recallAtK([1, 0], [1, 4], exact, points)).toBe(0.5);
+		expect(recallAtK([1, 0], [], exact, points)).toBe(0);
+	});
+
+	it("counts a hit tied with the k-th neighbour as found", () => {
+		expect(recallAtK([1, 0], [1, 3], exact, points)).toBe(1);
+	});
+
+	it("is 1 when there is nothing to find", () => {
+		expect(recallAtK([1, 0], [], [], points)).toBe(1);
+	});
+});
+
+describe("RecallBenchmarkService", () => {
+	it("reports full recall when the search is exact", async () => {
+		const result = await new RecallBenchmarkService().run(await storeWith(20), {
+			queries: 5,
+			k: 3,
+		});
+
+		expect(result).toMatchObject({
+			contractId: "memory:benchmark",
+			vectorCount: 20,
+			queries: 5,
+			k: 3,
+			recall: 1,
+			minRecall: 1,
+			perfectQueries: 5,
+		});
+	});
+
+	it("reports the misses of a poor search", async () => {
+		const store = await storeWith(20);
+		// Always answers with the farthest vectors instead of the nearest
+		store.searchVectors = async ({ query, k }) => {
+			const all = await InMemoryVectorStore.prototype.searchVectors.call(
+				store,
+				{ query, k: 20 },
+			);
+			return all.reverse().slice(0, k) as VectorSearchResult[];
+		};
+
+		const result = await new RecallBenchmarkService().run(store, {
+			queries: 20,
+			k: 3,
+		});
+
+		expect(result.recall).toBe(0);
+		expect(result.perfectQueries).toBe(0);
+	});
+
+	it("samples at most every stored vector", async () => {
+		const result = await new RecallBenchmarkService().run(await storeWith(4), {
+			queries: 50,
+			k: 2,
+		});
+
+		expect(result.queries).toBe(4);
+	});
+
+	it("needs at least two vectors", async () => {
+		await expect(
+			new RecallBenchmarkService().run(await storeWith(1), {
+				queries: 5,
+				k: 3,
+			}),
+		).rejects.toMatchObject({ statusCode: 400 });
+	});
+
+	it("runs one benchmark at a time", async () => {
+		const service = new RecallBenchmarkService();
+		const store = await storeWith(20);
+
+		const first = service.run(store, { queries: 5, k: 3 });
+		await expect(
+			service.run(store, { queries: 5, k: 3 }),
+		).rejects.toMatchObject({ statusCode: 409 });
+		await first;
+
+		await expect(
+			service.run(store, { queries: 5, k: 3 }),
+		).resolves.toMatchObject({ queries: 5 });
+	});
+});
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ServiceRegistry } from "../src/services/ServiceRegistry.js";
+
+interface FakeService {
+	key: string;
+	disposed: boolean;
+}
+
+const createRegistry = (
+	options: { maxSize?: number; idleMs?: number } = {},
+) => {
+	const created: FakeService[] = [];
+	const registry = new ServiceRegistry<FakeService>({
+		name: "FakeService",
+		maxSize: options.maxSize ?? 2,
+		idleMs: options.idleMs ?? 0,
+		create: async (key) => {
+			const service = { key, disposed: false };
+			created.push(service);
+			return service;
+		},
+		dispose: async (service) => {
+			service.disposed = true;
+		},
+	});
+	return { registry, created };
+};
+
+// Let fire-and-forget disposals settle
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("ServiceRegistry", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("reuses services and shares concurrent initializations", async () => {
+		const { registry, created } = createRegistry();
+
+		const [first, second] = await Promise.all([
+			registry.acquire("a"),
+			registry.acquire("a"),
+		]);
+		const third = await registry.acquire("a");
+
+		expect(created).toHaveLength(1);
+		expect(second.service).toBe(first.service);
+		expect(third.service).toBe(first.service);
+		expect(registry.getStats()).toMatchObject({ size: 1, hits: 2, misses: 1 });
+	});
+
+	it("evicts and disposes the least recently used service when full", async () => {
+		const { registry } = createRegistry({ maxSize: 2 });
+
+		const a = await registry.acquire("a");
+		a.release();
+		(await registry.acquire("b")).release();
+		(await registry.acquire("a")).release(); // "b" is now least recently used
+		(await registry.acquire("c")).release();
+		await flush();
+
+		expect(a.service.disposed).toBe(false);
+		expect(registry.getStats()).toMatchObject({ size: 2, evictions: 1 });
+		expect((await registry.acquire("b")).service.disposed).toBe(false);
+		expect(registry.getStats().misses).toBe(4); // "b" was created again
+	});
+
+	it("keeps a leased service when full and evicts it once released", async () => {
+		const { registry, created } = createRegistry({ maxSize: 1 });
+
+		const a = await registry.acquire("a");
+		const b = await registry.acquire("b");
+		const again = await registry.acquire("a");
+		await flush();
+
+		expect(again.service).toBe(a.service);
+		expect(created).toHaveLength(2);
+		expect(registry.getStats()).toMatchObject({ size: 2, evictions: 0 });
+
+		b.release();
+		await flush();
+		expect(b.service.disposed).toBe(true);
+		expect(registry.getStats()).toMatchObject({ size: 1, evictions: 1 });
+
+		a.release();
+		again.release();
+		await flush();
+		expect(a.service.disposed).toBe(false);
+	});
+
+	it("never evicts for size when maxSize is 0", async () => {
+		const { registry } = createRegistry({ maxSize: 0 });
+
+		for (const key of ["a", "b", "c"]) {
+			(await registry.acquire(key)).release();
+		}
+		await flush();
+
+		expect(registry.getStats()).toMatchObject({ size: 3, evictions: 0 });
+	});
+
+	it("defers disposal of an invalidated service until its leases are released", async () => {
+		const { registry } = createRegistry();
+
+		const a = await registry.acquire("a");
+		const again = await registry.acquire("a");
+		registry.invalidate("a");
+		await flush();
+
+		expect(registry.getStats().evictions).toBe(1);
+		expect(a.service.disposed).toBe(false);
+		expect((await registry.acquire("a")).service).not.toBe(a.service);
+
+		a.release();
+		a.release(); // Releasing twice doesn't count as the second lease
+		await flush();
+		expect(a.service.disposed).toBe(false);
+
+		again.release();
+		await flush();
+		expect(a.service.disposed).toBe(true);
+	});
+
+	it("only evicts idle services that nobody is using", async () => {
+		vi.useFakeTimers();
+		const { registry } = createRegistry({ maxSize: 10, idleMs: 1000 });
+
+		const busy = await registry.acquire("busy");
+		const idle = await registry.acquire("idle");
+		idle.release();
+
+		await vi.advanceTimersByTimeAsync(2000);
+
+		expect(idle.service.disposed).toBe(true);
+		expect(busy.service.disposed).toBe(false);
+		expect(registry.getStats().size).toBe(1);
+
+		busy.release();
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(busy.service.disposed).toBe(true);
+		expect(registry.getStats().size).toBe(0);
+	});
+
+	it("does not cache failed initializations", async () => {
+		let attempts = 0;
+		const registry = new ServiceRegistry<string>({
+			name: "FlakyService",
+			maxSize: 2,
+			idleMs: 0,
+			create: async (key) => {
+				attempts++;
+				if (attempts === 1) {
+					throw new Error("unreachable");
+				}
+				return key;
+			},
+			dispose: async () => {},
+		});
+
+		await expect(registry.acquire("a")).rejects.toThrow("unreachable");
+		expect(registry.getStats().size).toBe(0);
+
+		expect((await registry.acquire("a")).service).toBe("a");
+		expect(attempts).toBe(2);
+	});
+
+	it("disposes every service on clear, leased or not", async () => {
+		const { registry } = createRegistry();
+
+		const a = await registry.acquire("a");
+		const b = await registry.acquire("b");
+		b.release();
+		await registry.clear();
+
+		expect(a.service.disposed).toBe(true);
+		expect(b.service.disposed).toBe(true);
+		expect(registry.getStats().size).toBe(0);
+	});
+});
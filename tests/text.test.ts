@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { splitIntoPassages } from "../src/utils/text.js";
+
+// One token per word keeps the expectations readable
+const countWords = (segment: string) =>
+	segment.split(/\s+/).filter(Boolean).length;
+const words = (count: number) =>
+	Array.from({ length: count }, (_, i) => `w${i}`).join(" ");
+
+describe("splitIntoPassages", () => {
+	it("returns text that fits as a single untouched passage", () => {
+		const text = "  short text\n";
+		expect(splitIntoPassages(text, 5, 2, countWords)).toEqual([text]);
+	});
+
+	it("cuts on word boundaries within the token budget", () => {
+		const passages = splitIntoPassages(words(10), 4, 0, countWords);
+
+		expect(passages).toEqual(["w0 w1 w2 w3", "w4 w5 w6 w7", "w8 w9"]);
+		for (const passage of passages) {
+			expect(countWords(passage)).toBeLessThanOrEqual(4);
+		}
+	});
+
+	it("repeats the tail of the previous passage as overlap", () => {
+		expect(splitIntoPassages(words(8), 4, 2, countWords)).toEqual([
+			"w0 w1 w2 w3",
+			"w2 w3 w4 w5",
+			"w4 w5 w6 w7",
+		]);
+	});
+
+	it("caps the overlap at half the budget so passages make progress", () => {
+		expect(splitIntoPassages(words(6), 2, 5, countWords)).toEqual([
+			"w0 w1",
+			"w1 w2",
+			"w2 w3",
+			"w3 w4",
+			"w4 w5",
+		]);
+	});
+
+	it("keeps the original whitespace inside passages", () => {
+		const text = "alpha  beta\ngamma delta\tepsilon";
+		expect(splitIntoPassages(text, 3, 0, countWords)).toEqual([
+			"alpha  beta\ngamma",
+			"delta\tepsilon",
+		]);
+	});
+
+	it("drops the overlap when it leaves no room for the next word", () => {
+		// "big" costs 3 tokens, so carrying "b" along would overflow the budget
+		const countTokens = (segment: string) =>
+			segment
+				.split(/\s+/)
+				.filter(Boolean)
+				.reduce((sum, word) => sum + (word === "big" ? 3 : 1), 0);
+
+		expect(splitIntoPassages("a b big c", 3, 1, countTokens)).toEqual([
+			"a b",
+			"big",
+			"c",
+		]);
+	});
+
+	it("gives a word larger than the budget its own passage", () => {
+		const countTokens = (segment: string) => segment.trim().length;
+
+		expect(splitIntoPassages("ab abcdefgh cd", 4, 0, countTokens)).toEqual([
+			"ab",
+			"abcdefgh",
+			"cd",
+		]);
+	});
+});
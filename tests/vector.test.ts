@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+	cosineSimilarity,
+	maximalMarginalRelevance,
+	rankByDistance,
+} from "../src/utils/vector.js";
+
+describe("cosineSimilarity", () => {
+	it("ranges from -1 to 1 and ignores magnitude", () => {
+		expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+		expect(cosineSimilarity([1, 0], [0, 3])).toBeCloseTo(0);
+		expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+	});
+
+	it("returns 0 for zero-length vectors", () => {
+		expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+	});
+});
+
+describe("maximalMarginalRelevance", () => {
+	const query = [1, 0, 0];
+	// Two near-duplicates closest to the query, and a less relevant but different one
+	const candidates = [
+		{ id: "c", point: [0.8, 0, 0.6] },
+		{ id: "b", point: [0.98, 0.2, 0] },
+		{ id: "a", point: [0.99, 0.14, 0] },
+	];
+	const ids = (picked: Array<{ id: string }>) => picked.map(({ id }) => id);
+
+	it("ranks by relevance alone when lambda is 1", () => {
+		expect(ids(maximalMarginalRelevance(candidates, query, 3, 1))).toEqual([
+			"a",
+			"b",
+			"c",
+		]);
+	});
+
+	it("skips near-duplicates of already picked candidates", () => {
+		expect(ids(maximalMarginalRelevance(candidates, query, 2, 0.5))).toEqual([
+			"a",
+			"c",
+		]);
+	});
+
+	it("always starts with the most relevant candidate", () => {
+		expect(ids(maximalMarginalRelevance(candidates, query, 1, 0.1))).toEqual([
+			"a",
+		]);
+	});
+
+	it("returns at most k candidates and handles an empty pool", () => {
+		expect(maximalMarginalRelevance(candidates, query, 10, 0.5)).toHaveLength(
+			3,
+		);
+		expect(maximalMarginalRelevance([], query, 5, 0.5)).toEqual([]);
+	});
+});
+
+describe("rankByDistance", () => {
+	it("orders every vector by cosine distance, closest first", () => {
+		const ranked = rankByDistance(
+			[1, 0],
+			[
+				{ id: 0, point: [0, 1] },
+				{ id: 1, point: [-1, 0] },
+				{ id: 2, point: [3, 0] },
+			],
+		);
+
+		expect(ranked.map((vector) => vector.id)).toEqual([2, 0, 1]);
+		expect(ranked.map((vector) => vector.distance)).toEqual([0, 1, 2]);
+	});
+
+	it("breaks ties by ascending ID and keeps the vectors' other fields", () => {
+		const ranked = rankByDistance(
+			[1, 0],
+			[
+				{ id: 5, point: [0, 1], label: "b" },
+				{ id: 3, point: [0, -1], label: "a" },
+			],
+		);
+
+		expect(ranked.map((vector) => vector.label)).toEqual(["a", "b"]);
+	});
+});
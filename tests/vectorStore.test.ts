@@ -0,0 +1,182 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	InMemoryVectorStore,
+	type VectorStoreChange,
+} from "../src/services/InMemoryVectorStore.js";
+import { LocalVectorStore } from "../src/services/LocalVectorStore.js";
+import {
+	acquireVectorStore,
+	getVectorStoreKind,
+	withVectorStore,
+} from "../src/services/VectorStore.js";
+
+const params = { m: 8, efConstruction: 64, efSearch: 32 };
+
+const point = (i: number) => [Math.cos(i), Math.sin(i), (i % 7) / 7];
+
+describe("InMemoryVectorStore", () => {
+	it("stores, finds and deletes vectors", async () => {
+		const store = new InMemoryVectorStore("memory:test", params);
+		for (let i = 0; i < 20; i++) {
+			const result = await store.insertVector({
+				vector: point(i),
+				metadata: { content: `memory ${i}` },
+			});
+			expect(result.vectorId).toBe(i);
+		}
+
+		const [nearest] = await store.searchVectors({ query: point(5), k: 1 });
+		expect(nearest).toMatchObject({ id: 5, metadata: { content: "memory 5" } });
+
+		expect(await store.deleteVector(5)).toBe(true);
+		expect(await store.deleteVector(5)).toBe(false);
+		expect(await store.getVector(5)).toBeNull();
+
+		const results = await store.searchVectors({ query: point(5), k: 3 });
+		expect(results.map((result) => result.id)).not.toContain(5);
+		expect(await store.getVectorCount()).toBe(20); // Deleted vectors keep their ID
+	});
+
+	it("rejects vectors of another dimension", async () => {
+		const store = new InMemoryVectorStore("memory:test", params);
+		await store.insertVector({ vector: [1, 0, 0] });
+
+		await expect(store.insertVector({ vector: [1, 0] })).rejects.toThrow(
+			"expected 3 dimensions",
+		);
+	});
+
+	it("hands out sequential IDs to concurrent inserts", async () => {
+		const store = new InMemoryVectorStore("memory:test", params);
+
+		const results = await Promise.all(
+			Array.from({ length: 10 }, (_, i) =>
+				store.insertVector({ vector: point(i) }),
+			),
+		);
+
+		expect(results.map((result) => result.vectorId)).toEqual([
+			0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+		]);
+	});
+
+	it("leaves the store untouched when a change fails to persist", async () => {
+		class FailingStore extends InMemoryVectorStore {
+			failing = false;
+
+			protected async record(_change: VectorStoreChange): Promise<void> {
+				if (this.failing) {
+					throw new Error("disk full");
+				}
+			}
+		}
+		const store = new FailingStore("memory:test", params);
+		await store.insertVector({ vector: point(0) });
+
+		store.failing = true;
+		await expect(store.insertVector({ vector: point(1) })).rejects.toThrow(
+			"disk full",
+		);
+		await expect(store.deleteVector(0)).rejects.toThrow("disk full");
+
+		expect(await store.getVectorCount()).toBe(1);
+		expect(await store.getVector(0)).not.toBeNull();
+
+		store.failing = false;
+		expect((await store.insertVector({ vector: point(1) })).vectorId).toBe(1);
+	});
+});
+
+describe("LocalVectorStore", () => {
+	let dir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(path.join(tmpdir(), "vector-store-"));
+		filePath = path.join(dir, "store.ndjson");
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("replays its append log into the same store", async () => {
+		const store = await LocalVectorStore.open("local:test", filePath);
+		for (let i = 0; i < 30; i++) {
+			await store.insertVector({
+				vector: point(i),
+				metadata: { content: `memory ${i}` },
+			});
+		}
+		await store.deleteVector(3);
+		await store.cleanup();
+
+		const reopened = await LocalVectorStore.open("local:test", filePath);
+
+		expect(await reopened.getVectorCount()).toBe(30);
+		expect(await reopened.getVector(3)).toBeNull();
+		expect(await reopened.getVector(7)).toEqual(await store.getVector(7));
+		for (const i of [0, 11, 29]) {
+			expect(await reopened.searchVectors({ query: point(i), k: 5 })).toEqual(
+				await store.searchVectors({ query: point(i), k: 5 }),
+			);
+		}
+
+		// New inserts continue the ID sequence
+		expect((await reopened.insertVector({ vector: point(30) })).vectorId).toBe(
+			30,
+		);
+	});
+
+	it("creates an empty log for a new store", async () => {
+		const store = await LocalVectorStore.open("local:test", filePath);
+
+		expect(await store.getVectorCount()).toBe(0);
+		expect(await readFile(filePath, "utf-8")).toBe("");
+	});
+
+	it("ignores an incomplete last line left by a crash", async () => {
+		const store = await LocalVectorStore.open("local:test", filePath);
+		await store.insertVector({ vector: point(0) });
+		await store.insertVector({ vector: point(1) });
+		await store.cleanup();
+
+		const log = await readFile(filePath, "utf-8");
+		await writeFile(filePath, log.slice(0, -10));
+
+		const reopened = await LocalVectorStore.open("local:test", filePath);
+		expect(await reopened.getVectorCount()).toBe(1);
+	});
+});
+
+describe("vector store selection", () => {
+	it("reads the backend from the store ID prefix", () => {
+		expect(getVectorStoreKind("memory:1b9d6bcd")).toBe("memory");
+		expect(getVectorStoreKind("local:1b9d6bcd")).toBe("local");
+		expect(
+			getVectorStoreKind("q2z3OnMMqM2SlEs3hOJzbc3NQMsn2_9lC1KmVVzRZtA"),
+		).toBe("eizen");
+		expect(getVectorStoreKind("remote:1b9d6bcd")).toBe("eizen");
+	});
+
+	it("keeps a memory store across leases", async () => {
+		const first = await acquireVectorStore("memory:selection-test");
+		expect(first.store).toBeInstanceOf(InMemoryVectorStore);
+		await first.store.insertVector({ vector: point(0) });
+		first.release();
+
+		const count = await withVectorStore("memory:selection-test", (store) =>
+			store.getVectorCount(),
+		);
+		expect(count).toBe(1);
+	});
+
+	it("refuses local store IDs that aren't safe file names", async () => {
+		await expect(acquireVectorStore("local:../../etc/passwd")).rejects.toThrow(
+			"Invalid local vector store ID",
+		);
+	});
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { listUnfinishedMemoryWriteJobIds } from "../src/database/models/MemoryWriteJob.js";
+import { WriteOverlay } from "../src/services/WriteOverlay.js";
+
+vi.mock("../src/database/models/MemoryWriteJob.js", () => ({
+	listUnfinishedMemoryWriteJobIds: vi.fn(),
+}));
+
+const write = (jobId: string, embedding?: number[]) => ({
+	jobId,
+	content: `memory ${jobId}`,
+	metadata: { createdAt: "2026-01-01T00:00:00.000Z" },
+	embedding,
+});
+
+describe("WriteOverlay", () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it("drops writes whose jobs have finished", async () => {
+		const overlay = new WriteOverlay();
+		overlay.add("contract-a", write("1", [1, 0]));
+		overlay.add("contract-a", write("2", [1, 0]));
+		overlay.add("contract-b", write("3", [1, 0]));
+		vi.mocked(listUnfinishedMemoryWriteJobIds).mockResolvedValue(["2"]);
+
+		await overlay.prune();
+
+		expect(listUnfinishedMemoryWriteJobIds).toHaveBeenCalledWith([
+			"1",
+			"2",
+			"3",
+		]);
+		expect(overlay.search("contract-a", [1, 0]).map((w) => w.jobId)).toEqual([
+			"2",
+		]);
+		expect(overlay.search("contract-b", [1, 0])).toEqual([]);
+	});
+
+	it("only checks the given contract's writes", async () => {
+		const overlay = new WriteOverlay();
+		overlay.add("contract-a", write("1", [1, 0]));
+		overlay.add("contract-b", write("2", [1, 0]));
+		vi.mocked(listUnfinishedMemoryWriteJobIds).mockResolvedValue([]);
+
+		await overlay.prune("contract-a");
+
+		expect(listUnfinishedMemoryWriteJobIds).toHaveBeenCalledWith(["1"]);
+		expect(overlay.search("contract-a", [1, 0])).toEqual([]);
+		expect(overlay.search("contract-b", [1, 0])).toHaveLength(1);
+	});
+
+	it("skips the job table when there is nothing to prune", async () => {
+		await new WriteOverlay().prune();
+
+		expect(listUnfinishedMemoryWriteJobIds).not.toHaveBeenCalled();
+	});
+
+	it("moves writes to the contract that replaced theirs", () => {
+		const overlay = new WriteOverlay();
+		overlay.add("contract-a", write("1", [1, 0]));
+
+		overlay.move("contract-a", "contract-b");
+
+		expect(overlay.search("contract-a", [1, 0])).toEqual([]);
+		expect(overlay.search("contract-b", [1, 0]).map((w) => w.jobId)).toEqual([
+			"1",
+		]);
+	});
+
+	it("searches only embedded writes, nearest first", () => {
+		const overlay = new WriteOverlay();
+		overlay.add("contract-a", write("far", [0, 1]));
+		overlay.add("contract-a", write("unembedded"));
+		overlay.add("contract-a", write("near", [1, 0.1]));
+		overlay.setEmbedding("contract-a", "unembedded", [-1, 0]);
+		overlay.add("contract-a", write("pending"));
+
+		const matches = overlay.search("contract-a", [1, 0]);
+
+		expect(matches.map((match) => match.jobId)).toEqual([
+			"near",
+			"far",
+			"unembedded",
+		]);
+		expect(matches[0].distance).toBeLessThan(matches[1].distance);
+	});
+});
@@ -4,6 +4,7 @@ declare global {
   namespace Express {
     interface Request {
       userId?: string; // Optional userId for authenticated requests
+      contractId?: string; // Tenant's Eizen contract ID, set by API key authentication
     }
   }
 }
\ No newline at end of file